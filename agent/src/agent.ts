@@ -6,18 +6,67 @@
 import axios from 'axios';
 import { logger } from './logger';
 import { GitOperations } from './git-operations';
+import { GitHubToken } from './github-token';
 import { ClaudeWrapper } from './claude-wrapper';
-import { AgentContext, AgentStatus } from './types';
+import { CommandClient } from './command-client';
+import { EventForwarder } from './event-forwarder';
+import { Transcript } from './transcript';
+import { FeedbackAssembler } from './feedback-assembler';
+import { Identity } from './identity';
+import { ReviewResponder } from './review-responder';
+import { PRComposer } from './pr-composer';
+import { PRPublisher } from './pr-publisher';
+import { Validator } from './validator';
+import { AllowedPaths } from './allowed-paths';
+import { registerPartials, renderTemplate, TemplateVariables } from './template';
+import { PromptContext } from './prompt-context';
+import { Budget, BudgetExceededError, BudgetPhase } from './budget';
+import { readSecret } from './secrets';
+import { ApiProxy } from './api-proxy';
+import { AgentContext, AgentStatus, ClaudeResult, PRCreationResult, ValidationResult } from './types';
+
+// How long to wait for review activity before giving up (extendable via the extend-timeout command)
+const MONITOR_TIMEOUT_MS = 24 * 60 * 60 * 1000;
 
 export class Agent {
   private context: AgentContext;
+  private githubToken: GitHubToken;
   private gitOps: GitOperations;
   private claude: ClaudeWrapper;
+  private commands: CommandClient;
+  private events: EventForwarder;
+  private transcript: Transcript;
+  private identity: Identity;
+  private feedbackAssembler: FeedbackAssembler;
+  private reviewResponder: ReviewResponder;
+  private prComposer: PRComposer;
+  private promptContext: PromptContext;
+  private prPublisher: PRPublisher;
+  private validator: Validator;
+  private allowedPaths: AllowedPaths;
+  private budget: Budget;
+  private apiProxy: ApiProxy;
+  private heartbeatInterval?: NodeJS.Timeout;
 
   constructor(context: AgentContext) {
     this.context = context;
-    this.gitOps = new GitOperations('/workspace/repo');
-    this.claude = new ClaudeWrapper('/workspace/repo', context.claudeApiKey);
+    this.githubToken = new GitHubToken(context);
+    this.gitOps = new GitOperations(this.githubToken, '/workspace/repo');
+    this.transcript = new Transcript(context.transcriptDir);
+    this.apiProxy = new ApiProxy(readSecret(context.secretsDir, 'anthropic-api-key'));
+    this.claude = new ClaudeWrapper('/workspace/repo', this.transcript, this.apiProxy);
+    this.commands = new CommandClient(context.orchestratorUrl, context.containerId, context.orchestratorToken);
+    this.events = new EventForwarder(context.orchestratorUrl, context.containerId, context.orchestratorToken);
+    this.identity = new Identity(context);
+    this.feedbackAssembler = new FeedbackAssembler(this.gitOps, context, this.identity);
+    this.reviewResponder = new ReviewResponder(this.gitOps, context);
+    this.prComposer = new PRComposer(this.gitOps, context);
+    this.promptContext = new PromptContext(this.gitOps, context, this.identity);
+    registerPartials(context.promptPartials);
+    this.allowedPaths = new AllowedPaths(context.allowedPaths);
+    this.prPublisher = new PRPublisher(this.gitOps, context, this.allowedPaths, this.handlePROpened.bind(this));
+    this.validator = new Validator('/workspace/repo', context.validation);
+    this.budget = new Budget(context.budget);
   }
 
   /**
@@ -29,51 +78,92 @@ export class Agent {
       issue: this.context.issueNumber
     });
 
+    // Keep the orchestrator informed we're alive during long Claude runs
+    this.startHeartbeat();
+
+    // Claude gets the API key only by way of the proxy
+    await this.apiProxy.start();
+
+    // Learn which GitHub account we act as, so we skip our own review replies
+    await this.identity.init();
+
     try {
       // Phase 1: Analyze the issue
       await this.reportStatus('analyzing', 'Reading and understanding the issue...');
       await this.analyzeIssue();
 
-      // Phase 2: Develop solution
+      // Phase 2: Develop solution (in draft mode, Claude's commits open a draft PR as it goes)
       await this.reportStatus('developing', 'Developing solution with Claude Code...');
-      const developResult = await this.developSolution();
+      const baseBranch = await this.getBaseBranch();
+      const developResult = await this.developSolution(baseBranch);
 
       if (!developResult.success) {
         throw new Error(`Development failed: ${developResult.error}`);
       }
 
-      // Phase 3: Commit changes
-      await this.reportStatus('testing', 'Committing changes...');
-      const commitResult = await this.commitAndPush();
+      // Phase 3: Validate, giving Claude a bounded number of attempts to fix failures
+      await this.revertDisallowedChanges(baseBranch);
+      const validation = await this.validateSolution('develop', developResult.result!, baseBranch);
+
+      // Phase 4: Commit changes, described from Claude's summary, the diff and the validation
+      await this.prPublisher.settle();
+      const pr = await this.prComposer.compose(developResult.result!, baseBranch, validation);
+      const commitResult = await this.commitAndPush(pr.commitMessage, baseBranch);
 
       if (!commitResult.success) {
         throw new Error(`Failed to commit changes: ${commitResult.error}`);
       }
 
-      // Phase 4: Create PR
-      await this.reportStatus('pr_created', 'Creating pull request...');
-      const prResult = await this.createPR();
+      // Phase 5: Create the PR (or update the draft) and hand it to reviewers once validated
+      const prResult = await this.prPublisher.publish(pr, baseBranch);
 
       if (!prResult.success) {
         throw new Error(`Failed to create PR: ${prResult.error}`);
       }
 
-      logger.info('PR created successfully', {
-        prNumber: prResult.prNumber,
-        url: prResult.prUrl
-      });
+      await this.prPublisher.promote(validation);
 
-      // Phase 5: Enter feedback loop
+      // Phase 6: Enter feedback loop
       await this.reportStatus('awaiting_review', 'Waiting for review feedback...');
-      await this.monitorPRAndIterate(prResult.prNumber!);
+      const outcome = await this.monitorPRAndIterate(prResult.prNumber!, baseBranch);
 
-      // Phase 6: Complete
-      await this.reportStatus('done', 'Agent completed successfully');
+      // Phase 7: Complete
+      if (outcome === 'aborted') {
+        await this.reportStatus('aborted', 'Agent stopped by the orchestrator');
+      } else {
+        await this.reportStatus('done', 'Agent completed successfully');
+      }
 
     } catch (error) {
+      // Running out of budget is an expected end, explained on the issue by the orchestrator
+      if (error instanceof BudgetExceededError) {
+        logger.warn('Budget exhausted, stopping', { reason: error.message, usage: this.budget.getUsage() });
+        await this.reportStatus('budget_exceeded', error.message);
+        return;
+      }
+
       logger.error('Agent execution failed', { error });
       await this.reportStatus('error', `Agent failed: ${error}`);
       throw error;
+    } finally {
+      this.stopHeartbeat();
+      this.apiProxy.stop();
+    }
+  }
+
+  /**
+   * Send a heartbeat to the orchestrator every minute
+   */
+  private startHeartbeat(): void {
+    this.heartbeatInterval = setInterval(() => {
+      this.reportStatus('heartbeat', 'Agent is running').catch(() => undefined);
+    }, 60 * 1000);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
     }
   }
 
@@ -105,12 +195,12 @@ Please explore the repository structure first to understand the codebase, then i
   /**
    * Develop the solution using Claude Code
    */
-  private async developSolution(): Promise<{ success: boolean; error?: string }> {
+  private async developSolution(baseBranch: string): Promise<{ success: boolean; error?: string; result?: ClaudeResult }> {
     logger.info('Starting solution development');
 
     // Use custom prompt template if provided, otherwise use default
-    const prompt = this.context.promptTemplate
-      ? this.interpolateTemplate(this.context.promptTemplate)
+    const prompt = (this.context.promptTemplate
+      ? await this.interpolateTemplate(this.context.promptTemplate)
       : this.claude.buildPrompt(
           this.context.issueTitle,
           this.context.issueBody,
@@ -124,12 +214,24 @@ Instructions:
 3. Test your changes if applicable.
 4. When done, report "DONE" with a summary.
 `
-        );
+        )) + this.allowedPaths.describe();
+
+    // Execute Claude Code within the develop phase budget
+    this.checkBudget();
+    const result = await this.claude.executeWithFile(prompt, this.budget.getTimeoutMs('develop'), {
+      label: 'develop',
+      onEvent: event => {
+        this.events.forward(event);
+        this.prPublisher.handleEvent(event, baseBranch);
+      }
+    });
+    await this.finishExecution('develop', result);
 
-    try {
-      // Execute Claude Code
-      const result = await this.claude.executeWithFile(prompt, 25 * 60 * 1000); // 25 min timeout
+    if (result.timedOut) {
+      throw new BudgetExceededError(this.budget.describeTimeout('develop'));
+    }
 
+    try {
       if (!result.success) {
         logger.error('Claude Code execution failed', { error: result.error });
         return {
@@ -138,16 +240,13 @@ Instructions:
         };
       }
 
+      // The full trace is in the transcript; Claude's final summary is enough here
       logger.info('Solution development completed', {
-        outputLength: result.output.length
+        filesEdited: result.changes,
+        summary: result.output
       });
 
-      // Log summary of output
-      const lines = result.output.split('\n');
-      const lastLines = lines.slice(-20).join('\n');
-      logger.info('Claude Code output (last 20 lines)', { output: lastLines });
-
-      return { success: true };
+      return { success: true, result };
 
     } catch (error) {
       logger.error('Exception during development', { error });
@@ -161,13 +260,13 @@ Instructions:
   /**
    * Commit and push changes
    */
-  private async commitAndPush(): Promise<{ success: boolean; error?: string }> {
+  private async commitAndPush(commitMessage: string, baseBranch: string): Promise<{ success: boolean; error?: string }> {
     try {
-      // Get changed files
+      // Get changed files, including any Claude already committed
       const changedFiles = await this.gitOps.getChangedFiles();
       logger.info('Changed files', { files: changedFiles });
 
-      if (changedFiles.length === 0) {
+      if (changedFiles.length === 0 && (await this.gitOps.getStagedDiffStat(baseBranch)).files.length === 0) {
         logger.warn('No files were changed');
         return {
           success: false,
@@ -176,7 +275,6 @@ Instructions:
       }
 
       // Commit changes
-      const commitMessage = this.buildCommitMessage();
       const commitResult = await this.gitOps.commitAll(commitMessage);
 
       if (!commitResult.success) {
@@ -209,145 +307,327 @@ Instructions:
   }
 
   /**
-   * Create pull request
+   * Tell the orchestrator about the PR as soon as it exists (in draft mode, while Claude still works)
    */
-  private async createPR(): Promise<{ success: boolean; prNumber?: number; prUrl?: string; error?: string }> {
-    try {
-      const title = `AI Agent: Fix for #${this.context.issueNumber} - ${this.context.issueTitle}`;
-      const body = this.buildPRBody();
-
-      // Get default branch name (assume 'main' or 'master')
-      const baseBranch = await this.getDefaultBranch();
-
-      const result = await this.gitOps.createPR(
-        title,
-        body,
-        baseBranch,
-        this.context.repoOwner,
-        this.context.repoName,
-        this.context.githubToken
-      );
-
-      return result;
-
-    } catch (error) {
-      logger.error('Failed to create PR', { error });
-      return {
-        success: false,
-        error: String(error)
-      };
-    }
+  private async handlePROpened(pr: PRCreationResult): Promise<void> {
+    logger.info('PR created successfully', {
+      prNumber: pr.prNumber,
+      url: pr.prUrl
+    });
+    await this.reportStatus('pr_created', `Pull request #${pr.prNumber} created`, {
+      pr_number: pr.prNumber,
+      pr_url: pr.prUrl
+    });
   }
 
   /**
-   * Monitor PR for reviews and iterate on feedback
+   * Check the work is fit for review by running the repo's validation checks, asking
+   * Claude to fix failures up to the configured number of times. Repos with no checks
+   * to run fall back to the tests Claude ran itself.
    */
-  private async monitorPRAndIterate(prNumber: number): Promise<void> {
-    const maxIterations = 5;
-    let iterations = 0;
-    const checkInterval = 60 * 1000; // Check every minute
-
-    logger.info('Starting PR monitoring loop', { prNumber });
+  private async validateSolution(phase: BudgetPhase, result: ClaudeResult, baseBranch: string): Promise<ValidationResult> {
+    const commands = await this.validator.resolveCommands();
+    if (commands.length === 0) {
+      logger.info('No validation commands configured or detected, using the tests Claude ran');
+      return Validator.fromTests(result.tests || []);
+    }
 
-    while (iterations < maxIterations) {
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
+    const maxAttempts = this.validator.maxFixAttempts;
+    await this.reportStatus('testing', `Running ${commands.length} validation checks...`);
+    let validation = await this.validator.run(commands, this.budget.getRemainingMs());
+    let attempts = 0;
 
-      // Check for reviews
-      const reviews = await this.gitOps.getPRReviews(
-        prNumber,
-        this.context.repoOwner,
-        this.context.repoName,
-        this.context.githubToken
-      );
+    while (!validation.passed && attempts < maxAttempts) {
+      attempts++;
+      this.checkBudget();
+      await this.reportStatus('testing', `Validation failed, asking Claude to fix it (attempt ${attempts} of ${maxAttempts})...`);
 
-      // Check for changes requested
-      const changesRequested = reviews.filter(r =>
-        r.state === 'CHANGES_REQUESTED' &&
-        !this.isBotUser(r.user?.login)
+      const fix = await this.claude.executeWithFile(
+        this.claude.buildValidationFixPrompt(Validator.describeFailures(validation), attempts, maxAttempts),
+        this.budget.getTimeoutMs(phase),
+        {
+          label: 'fix',
+          onEvent: event => {
+            this.events.forward(event);
+            this.prPublisher.handleEvent(event, baseBranch);
+          }
+        }
       );
+      await this.finishExecution(phase, fix);
 
-      if (changesRequested.length > 0) {
-        logger.info('Changes requested, iterating', {
-          count: changesRequested.length
-        });
+      if (fix.timedOut) {
+        throw new BudgetExceededError(this.budget.describeTimeout(phase));
+      }
+      if (!fix.success) {
+        logger.warn('Claude failed to fix the validation failures', { error: fix.error });
+        break;
+      }
 
-        await this.reportStatus('iterating', 'Addressing review feedback...');
+      await this.revertDisallowedChanges(baseBranch);
+      validation = await this.validator.run(commands, this.budget.getRemainingMs());
+    }
 
-        // Aggregate feedback
-        const feedback = changesRequested
-          .map(r => `@${r.user?.login}: ${r.body}`)
-          .join('\n\n');
+    validation.fixAttempts = attempts;
+    await this.reportStatus('testing', validation.passed ? 'Validation passed' : 'Validation failed', {
+      validation: {
+        passed: validation.passed,
+        fix_attempts: attempts,
+        checks: (validation.checks || []).map(check => ({ command: check.command, passed: check.passed }))
+      }
+    });
+    return validation;
+  }
 
-        // Handle feedback
-        const handled = await this.handleFeedback(feedback);
+  /**
+   * Revert changes outside the repo's allowed paths, so they never reach the PR
+   */
+  private async revertDisallowedChanges(baseBranch: string): Promise<void> {
+    if (!this.allowedPaths.restricted) {
+      return;
+    }
 
-        if (!handled) {
-          logger.warn('Failed to handle feedback, will retry');
-          iterations++;
-          continue;
-        }
+    await this.gitOps.stageAll();
+    const disallowed = this.allowedPaths.filter((await this.gitOps.getStagedDiffStat(baseBranch)).files);
+    if (disallowed.length > 0) {
+      logger.warn('Reverting changes outside the allowed paths', { files: disallowed });
+      await this.gitOps.restoreFromBase(disallowed, baseBranch);
+    }
+  }
 
-        // Commit and push changes
-        await this.gitOps.commitAll(`Address review feedback (iteration ${iterations + 1})`);
-        await this.gitOps.push();
+  /**
+   * Wait for commands from the orchestrator and iterate on review feedback
+   */
+  private async monitorPRAndIterate(prNumber: number, baseBranch: string): Promise<'completed' | 'aborted'> {
+    let iterations = 0;
+    let deadline = Date.now() + MONITOR_TIMEOUT_MS;
+
+    logger.info('Waiting for orchestrator commands', { prNumber });
+
+    while (Date.now() < deadline) {
+      this.checkBudget();
+      const commands = await this.commands.poll(30);
+
+      for (const { command } of commands) {
+        switch (command.type) {
+          case 'feedback': {
+            logger.info('Feedback received', { reviewer: command.reviewer });
+
+            // Combine the review body with the PR's open inline review threads
+            const feedback = await this.feedbackAssembler.assemble(prNumber, [
+              { reviewer: command.reviewer, body: command.body }
+            ]);
+            if (FeedbackAssembler.isEmpty(feedback)) {
+              logger.info('No open feedback to address');
+              break;
+            }
+
+            await this.reportStatus('iterating', 'Addressing review feedback...');
+            const result = await this.handleFeedback(
+              FeedbackAssembler.render(feedback) + ReviewResponder.instructions(feedback)
+            );
+            iterations++;
+            this.budget.recordIteration();
+
+            if (!result) {
+              logger.warn('Failed to handle feedback');
+              await this.reportStatus('awaiting_review', 'Failed to address feedback, awaiting review...');
+              break;
+            }
+
+            // Validate before pushing, so reviewers don't get broken changes back
+            await this.revertDisallowedChanges(baseBranch);
+            const validation = await this.validateSolution('iterate', result, baseBranch);
+
+            // Commit and push changes; reviewers are only told about changes they can see
+            const commit = await this.gitOps.commitAll(`Address review feedback (iteration ${iterations})`);
+            if (!commit.success) {
+              await this.reportStatus('awaiting_review', `Failed to commit review changes: ${commit.error}`);
+              break;
+            }
+            const push = await this.gitOps.push();
+            if (!push.success) {
+              await this.reportStatus('awaiting_review', `Failed to push review changes: ${push.error}`);
+              break;
+            }
+
+            // Reply on each inline thread and resolve the ones that were addressed
+            const changedFiles = commit.hash ? await this.gitOps.getCommitFiles(commit.hash) : [];
+            const outcomes = this.reviewResponder.determineOutcomes(feedback, result.output, changedFiles);
+            await this.reviewResponder.respond(prNumber, outcomes, commit.hash);
+
+            // A draft held back by failing validation may be ready now
+            if (this.prPublisher.isDraft) {
+              await this.prPublisher.promote(validation);
+            }
+
+            await this.reportStatus('awaiting_review', 'Changes pushed, awaiting review...');
+
+            if (!this.budget.canIterate()) {
+              throw new BudgetExceededError(this.budget.describeIterationLimit());
+            }
+            break;
+          }
 
-        await this.reportStatus('awaiting_review', 'Changes pushed, awaiting review...');
-        iterations++;
-      }
+          case 'abort':
+            logger.info('Abort requested by orchestrator', { reason: command.reason });
+            return 'aborted';
+
+          case 'approved':
+            logger.info('PR approved, ending monitoring', { reviewer: command.reviewer });
+            return 'completed';
+
+          case 'rebase': {
+            const base = command.base || baseBranch;
+            const rebased = await this.gitOps.rebase(base);
+            if (rebased.success) {
+              await this.gitOps.push();
+              await this.reportStatus('awaiting_review', `Rebased onto ${base}`);
+            } else {
+              await this.reportStatus('awaiting_review', `Rebase onto ${base} failed: ${rebased.error}`);
+            }
+            break;
+          }
 
-      // Check for approval
-      const approved = reviews.some(r => r.state === 'APPROVED');
-      if (approved) {
-        logger.info('PR approved, ending monitoring');
-        break;
+          case 'extend-timeout':
+            deadline += command.minutes * 60 * 1000;
+            logger.info('Monitoring timeout extended', {
+              minutes: command.minutes,
+              deadline: new Date(deadline).toISOString()
+            });
+            break;
+        }
       }
     }
 
-    if (iterations >= maxIterations) {
-      logger.warn('Max iterations reached, ending monitoring');
-    }
+    logger.warn('Monitoring timed out, ending monitoring');
+    return 'completed';
   }
 
   /**
    * Handle review feedback
    */
-  private async handleFeedback(feedback: string): Promise<boolean> {
+  private async handleFeedback(feedback: string): Promise<ClaudeResult | null> {
     logger.info('Handling review feedback', { feedback: feedback.substring(0, 200) });
 
     // Use custom review feedback template if provided, otherwise use default
     const prompt = this.context.reviewFeedbackTemplate
-      ? this.interpolateReviewFeedbackTemplate(this.context.reviewFeedbackTemplate, feedback)
+      ? await this.interpolateTemplate(this.context.reviewFeedbackTemplate, { feedback })
       : this.claude.buildFeedbackPrompt(feedback);
 
-    try {
-      const result = await this.claude.executeWithFile(prompt, 20 * 60 * 1000);
+    // Execute Claude Code within the iterate phase budget
+    this.checkBudget();
+    const result = await this.claude.executeWithFile(prompt + this.allowedPaths.describe(), this.budget.getTimeoutMs('iterate'), {
+      label: 'iterate',
+      onEvent: event => this.events.forward(event)
+    });
+    await this.finishExecution('iterate', result);
+
+    if (result.timedOut) {
+      throw new BudgetExceededError(this.budget.describeTimeout('iterate'));
+    }
 
+    try {
       if (!result.success) {
         logger.error('Failed to execute feedback handling', { error: result.error });
-        return false;
+        return null;
       }
 
       logger.info('Feedback handling completed');
-      return true;
+      return result;
 
     } catch (error) {
       logger.error('Exception during feedback handling', { error });
-      return false;
+      return null;
+    }
+  }
+
+  /**
+   * After a Claude execution: send the last of its events, upload the transcript
+   * and account for its usage
+   */
+  private async finishExecution(phase: BudgetPhase, result: ClaudeResult): Promise<void> {
+    await this.events.flush();
+    await this.uploadTranscript();
+    await this.recordUsage(phase, result);
+  }
+
+  /**
+   * Add a Claude execution's usage to the run totals and report it right away,
+   * so the orchestrator's accounting doesn't wait for the next status change
+   */
+  private async recordUsage(phase: BudgetPhase, result: ClaudeResult): Promise<void> {
+    if (!result.usage) {
+      return;
+    }
+
+    if (result.usage.partial) {
+      logger.warn('Claude run ended without a result; recording streamed tokens, cost unknown', {
+        phase,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens
+      });
+    }
+
+    this.budget.recordUsage(result.usage);
+    await this.reportStatus('heartbeat', `Claude ${phase} run finished`, {
+      invocation: {
+        phase,
+        input_tokens: result.usage.inputTokens,
+        output_tokens: result.usage.outputTokens,
+        cost_usd: result.usage.costUsd
+      }
+    });
+  }
+
+  /**
+   * End the run if a budget (runtime, tokens, spend) has run out
+   */
+  private checkBudget(): void {
+    const exhausted = this.budget.getExhausted();
+    if (exhausted) {
+      throw new BudgetExceededError(exhausted);
     }
   }
 
   /**
-   * Interpolate review feedback template
+   * Upload the run's transcript so far to the orchestrator, which keeps it as an artifact
    */
-  private interpolateReviewFeedbackTemplate(template: string, feedback: string): string {
-    return template.replace(/\{\{feedback\}\}/g, feedback);
+  private async uploadTranscript(): Promise<void> {
+    const content = await this.transcript.read();
+    if (content === null) {
+      return;
+    }
+
+    try {
+      await axios.put(
+        `${this.context.orchestratorUrl}/api/agents/${encodeURIComponent(this.context.containerId)}/transcript`,
+        content,
+        {
+          timeout: 30000,
+          maxBodyLength: Infinity,
+          headers: {
+            'Content-Type': 'application/x-ndjson',
+            'Authorization': `Bearer ${this.context.orchestratorToken}`
+          }
+        }
+      );
+    } catch (error) {
+      // Non-critical: the file stays in the container and the next upload includes it
+      logger.warn('Failed to upload transcript to orchestrator', { error: String(error), path: this.transcript.path });
+    }
   }
 
   /**
    * Report status to orchestrator
    */
-  private async reportStatus(status: string, message: string): Promise<void> {
-    logger.info(`Status: ${status} - ${message}`);
+  private async reportStatus(
+    status: string,
+    message: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    if (status !== 'heartbeat') {
+      logger.info(`Status: ${status} - ${message}`);
+    }
 
     try {
       await axios.post(
@@ -356,13 +636,15 @@ Instructions:
           container_id: this.context.containerId,
           status,
           message,
-          details: {},
+          // Usage so far lets the orchestrator backstop the token and spend budgets
+          details: { ...details, usage: this.budget.getUsageDetails() },
           timestamp: new Date().toISOString()
         },
         {
           timeout: 5000,
           headers: {
-            'Content-Type': 'application/json'
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.context.orchestratorToken}`
           }
         }
       );
@@ -373,47 +655,19 @@ Instructions:
   }
 
   /**
-   * Build commit message
-   */
-  private buildCommitMessage(): string {
-    return `Fix for #${this.context.issueNumber}: ${this.context.issueTitle}
-
-This change was implemented by an AI agent to address the reported issue.
-
-Closes #${this.context.issueNumber}`;
-  }
-
-  /**
-   * Build PR body
+   * The branch the work is based on: the configured one, or the repo's default branch
    */
-  private buildPRBody(): string {
-    return `## Summary
-This PR addresses issue #${this.context.issueNumber}: ${this.context.issueTitle}
-
-## Changes
-${this.context.issueBody ? `- ${this.context.issueBody.substring(0, 500)}` : ''}
-
-## Checklist
-- [ ] Tests pass (if applicable)
-- [ ] Code follows project conventions
-- [ ] Documentation updated (if needed)
-
----
-*This PR was created by an AI agent. Please review carefully before merging.*
-
-Closes #${this.context.issueNumber}`;
-  }
+  private async getBaseBranch(): Promise<string> {
+    if (this.context.baseBranch) {
+      return this.context.baseBranch;
+    }
 
-  /**
-   * Get default branch name
-   */
-  private async getDefaultBranch(): Promise<string> {
     try {
       const response = await fetch(
         `https://api.github.com/repos/${this.context.repoOwner}/${this.context.repoName}`,
         {
           headers: {
-            'Authorization': `Bearer ${this.context.githubToken}`,
+            'Authorization': `Bearer ${await this.githubToken.get()}`,
             'Accept': 'application/vnd.github.v3+json'
           }
         }
@@ -431,43 +685,30 @@ Closes #${this.context.issueNumber}`;
   }
 
   /**
-   * Check if user is a bot
+   * Render a prompt template with the issue, its discussion and the repository
+   * (see prompt-context.ts), plus any variables particular to the prompt
    */
-  private isBotUser(login: string): boolean {
-    if (!login) return true;
-    const botPatterns = ['[bot]', '-bot', 'agent', 'ai-agent'];
-    return botPatterns.some(p => login.toLowerCase().endsWith(p));
+  private async interpolateTemplate(template: string, extra: TemplateVariables = {}): Promise<string> {
+    return renderTemplate(template, { ...await this.promptContext.get(), ...extra });
   }
+}
 
-  /**
-   * Interpolate template variables
-   * Supports {{variable}} syntax and simple conditionals
-   */
-  private interpolateTemplate(template: string): string {
-    let result = template;
-
-    // Replace variables
-    const variables = {
-      issue_title: this.context.issueTitle,
-      issue_body: this.context.issueBody || '',
-      repo_owner: this.context.repoOwner,
-      repo_name: this.context.repoName,
-      issue_number: this.context.issueNumber.toString(),
-      branch_name: this.context.branchName
-    };
-
-    // Simple variable substitution
-    result = result.replace(/\{\{(\w+)\}\}/g, (_, key) => {
-      return variables[key as keyof typeof variables] || '';
-    });
-
-    // Handle {{#if var}}...{{/if}} conditionals
-    result = result.replace(/\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (_, varName, content) => {
-      const value = variables[varName as keyof typeof variables];
-      return value ? content : '';
-    });
+/**
+ * Parse a comma-separated environment variable into a list
+ */
+function parseList(value?: string): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
 
-    return result;
+/**
+ * Parse a JSON value passed by the orchestrator, e.g. the run budget (defaults apply if missing or invalid)
+ */
+function parseJson<T>(value: string | undefined, name: string, fallback: T = {} as T): T {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch (error) {
+    logger.warn(`Ignoring invalid ${name}`, { error });
+    return fallback;
   }
 }
 
@@ -475,6 +716,9 @@ Closes #${this.context.issueNumber}`;
  * Entry point when run as a module
  */
 export async function main(): Promise<void> {
+  // Credentials come from the secrets directory, which only the agent user can read
+  const secretsDir = process.env.SECRETS_DIR || '/run/agent-secrets';
+
   // Load context from environment
   const context: AgentContext = {
     repoOwner: process.env.GITHUB_REPO_OWNER || '',
@@ -483,12 +727,26 @@ export async function main(): Promise<void> {
     issueTitle: process.env.GITHUB_ISSUE_TITLE || '',
     issueBody: process.env.GITHUB_ISSUE_BODY || '',
     branchName: process.env.BRANCH_NAME || '',
-    claudeApiKey: process.env.ANTHROPIC_API_KEY || '',
-    githubToken: process.env.GITHUB_TOKEN || '',
+    secretsDir,
+    githubToken: readSecret(secretsDir, 'github-token'),
+    githubTokenExpiresAt: readSecret(secretsDir, 'github-token-expires-at') || undefined,
     orchestratorUrl: process.env.ORCHESTRATOR_URL || '',
+    orchestratorToken: readSecret(secretsDir, 'orchestrator-token'),
     containerId: process.env.CONTAINER_ID || '',
-    promptTemplate: process.env.PROMPT_TEMPLATE,
-    reviewFeedbackTemplate: process.env.REVIEW_FEEDBACK_TEMPLATE
+    agentLogin: process.env.AGENT_LOGIN,
+    ignoreUsers: parseList(process.env.IGNORE_USERS),
+    trustedBots: parseList(process.env.TRUSTED_BOTS),
+    promptTemplate: parseJson(process.env.PROMPT_TEMPLATE, 'PROMPT_TEMPLATE', '') || undefined,
+    reviewFeedbackTemplate: parseJson(process.env.REVIEW_FEEDBACK_TEMPLATE, 'REVIEW_FEEDBACK_TEMPLATE', '') || undefined,
+    promptPartials: parseJson(process.env.PROMPT_PARTIALS, 'PROMPT_PARTIALS'),
+    triggerAuthor: process.env.TRIGGER_AUTHOR || undefined,
+    budget: parseJson(process.env.AGENT_BUDGET, 'AGENT_BUDGET'),
+    transcriptDir: process.env.TRANSCRIPT_DIR || '/workspace/transcripts',
+    prTemplates: parseJson(process.env.PR_TEMPLATES, 'PR_TEMPLATES'),
+    prWorkflow: parseJson(process.env.PR_WORKFLOW, 'PR_WORKFLOW'),
+    validation: parseJson(process.env.VALIDATION, 'VALIDATION'),
+    baseBranch: process.env.BASE_BRANCH || undefined,
+    allowedPaths: parseJson(process.env.ALLOWED_PATHS, 'ALLOWED_PATHS', [])
   };
 
   // Validate required fields
@@ -0,0 +1,68 @@
+/**
+ * Allowed Paths
+ * The parts of the repository the agent may change, as globs from the repo's settings
+ * (`**` spans directories, `*` and `?` stay within one; a plain path covers everything under it)
+ */
+
+export class AllowedPaths {
+  private patterns: string[];
+  private matchers: RegExp[];
+
+  constructor(patterns: string[] = []) {
+    this.patterns = patterns;
+    this.matchers = patterns.map(globToRegExp);
+  }
+
+  /**
+   * Whether changes are limited at all
+   */
+  get restricted(): boolean {
+    return this.patterns.length > 0;
+  }
+
+  allows(file: string): boolean {
+    return !this.restricted || this.matchers.some(matcher => matcher.test(file));
+  }
+
+  /**
+   * The files outside the allowed paths
+   */
+  filter(files: string[]): string[] {
+    return files.filter(file => !this.allows(file));
+  }
+
+  /**
+   * Instructions for Claude, empty if changes aren't limited
+   */
+  describe(): string {
+    if (!this.restricted) {
+      return '';
+    }
+    return `\n## Allowed Paths\nOnly change files matching these paths; changes anywhere else will be reverted:\n` +
+      this.patterns.map(pattern => `- \`${pattern}\``).join('\n') + '\n';
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/^\.?\//, '').replace(/\/$/, '/**');
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" anything at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A path without wildcards names a file or a directory
+  const directory = /[*?]/.test(pattern) ? '' : '(?:/.*)?';
+  return new RegExp(`^${source}${directory}$`);
+}
@@ -0,0 +1,86 @@
+/**
+ * API Proxy
+ * Claude reaches the Anthropic API through this local proxy, which adds the real API key
+ * on the way out. Claude and everything it runs only see a placeholder key, so the key
+ * itself never leaves the agent process.
+ */
+
+import http from 'http';
+import https from 'https';
+import { AddressInfo } from 'net';
+import { logger } from './logger';
+
+// What Claude is given instead of the key
+export const PLACEHOLDER_API_KEY = 'proxied-by-agent';
+
+// Headers that carry credentials or only describe the hop to the proxy
+const DROPPED_HEADERS = ['host', 'authorization', 'x-api-key', 'connection'];
+
+export class ApiProxy {
+  private apiKey: string;
+  private upstream: URL;
+  private server?: http.Server;
+  private baseUrl?: string;
+
+  constructor(apiKey: string, upstream: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com') {
+    this.apiKey = apiKey;
+    this.upstream = new URL(upstream);
+  }
+
+  /**
+   * The base URL Claude should use, once started
+   */
+  get url(): string | undefined {
+    return this.baseUrl;
+  }
+
+  /**
+   * Listen on a free local port
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => this.forward(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    logger.info('Anthropic API proxy listening', { url: this.baseUrl, upstream: this.upstream.origin });
+    return this.baseUrl;
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = undefined;
+    this.baseUrl = undefined;
+  }
+
+  private forward(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const target = new URL(this.upstream.pathname.replace(/\/$/, '') + (req.url || '/'), this.upstream.origin);
+
+    const headers: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (!DROPPED_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    }
+    headers['x-api-key'] = this.apiKey;
+
+    const client = target.protocol === 'https:' ? https : http;
+    const upstreamReq = client.request(target, { method: req.method, headers }, upstreamRes => {
+      res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+      upstreamRes.pipe(res);
+    });
+
+    upstreamReq.on('error', error => {
+      logger.warn('Anthropic API request failed', { path: req.url, error: String(error) });
+      if (!res.headersSent) {
+        res.writeHead(502);
+      }
+      res.end();
+    });
+
+    req.pipe(upstreamReq);
+  }
+}
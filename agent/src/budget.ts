@@ -0,0 +1,139 @@
+/**
+ * Budget
+ * Tracks an agent run against its limits (wall-clock time, per-phase Claude time,
+ * review iterations, tokens and spend) as passed in by the orchestrator
+ */
+
+import { ClaudeUsage, RunBudget } from './types';
+
+// Used when the orchestrator passes no budget
+const DEFAULT_BUDGET: RunBudget = {
+  maxRuntimeMinutes: 25 * 60,
+  maxDevelopMinutes: 25,
+  maxIterateMinutes: 20,
+  maxIterations: 5
+};
+
+export type BudgetPhase = 'develop' | 'iterate';
+
+export class Budget {
+  private limits: RunBudget;
+  private startedAt: number;
+  private usage: ClaudeUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  private iterations: number = 0;
+  private invocations: number = 0;
+
+  constructor(limits: RunBudget = {}, startedAt: number = Date.now()) {
+    this.limits = { ...DEFAULT_BUDGET, ...limits };
+    this.startedAt = startedAt;
+  }
+
+  /**
+   * Add the usage of one Claude execution
+   */
+  recordUsage(usage?: ClaudeUsage): void {
+    if (!usage) {
+      return;
+    }
+    this.usage.inputTokens += usage.inputTokens;
+    this.usage.outputTokens += usage.outputTokens;
+    this.usage.costUsd += usage.costUsd;
+    this.invocations++;
+  }
+
+  recordIteration(): void {
+    this.iterations++;
+  }
+
+  getUsage(): ClaudeUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * Run totals in the shape sent to the orchestrator in status details
+   */
+  getUsageDetails(): Record<string, number> {
+    return {
+      input_tokens: this.usage.inputTokens,
+      output_tokens: this.usage.outputTokens,
+      tokens: this.usage.inputTokens + this.usage.outputTokens,
+      cost_usd: Math.round(this.usage.costUsd * 10000) / 10000,
+      invocations: this.invocations
+    };
+  }
+
+  /**
+   * How long a Claude execution in this phase may run: the phase limit, cut short
+   * by whatever runtime is left
+   */
+  getTimeoutMs(phase: BudgetPhase): number {
+    const phaseMinutes = phase === 'develop' ? this.limits.maxDevelopMinutes : this.limits.maxIterateMinutes;
+    const phaseMs = (phaseMinutes || Infinity) * 60 * 1000;
+    return Math.max(0, Math.min(phaseMs, this.getRemainingMs()));
+  }
+
+  /**
+   * Milliseconds left of the runtime budget
+   */
+  getRemainingMs(): number {
+    if (!this.limits.maxRuntimeMinutes) {
+      return Infinity;
+    }
+    return this.startedAt + this.limits.maxRuntimeMinutes * 60 * 1000 - Date.now();
+  }
+
+  /**
+   * Whether another review iteration is allowed
+   */
+  canIterate(): boolean {
+    return !this.limits.maxIterations || this.iterations < this.limits.maxIterations;
+  }
+
+  /**
+   * The first budget that has run out, as a sentence for the issue comment, or null
+   */
+  getExhausted(): string | null {
+    const { maxRuntimeMinutes, maxTokens, maxCostUsd } = this.limits;
+    const tokens = this.usage.inputTokens + this.usage.outputTokens;
+
+    if (this.getRemainingMs() <= 0) {
+      return `the runtime budget of ${maxRuntimeMinutes} minutes was exhausted`;
+    }
+    if (maxTokens && tokens >= maxTokens) {
+      return `the token budget of ${maxTokens} tokens was exhausted (${tokens} used)`;
+    }
+    if (maxCostUsd && this.usage.costUsd >= maxCostUsd) {
+      return `the spend budget of $${maxCostUsd.toFixed(2)} was exhausted ($${this.usage.costUsd.toFixed(2)} spent)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Why iterating stopped, once the iteration budget is used up
+   */
+  describeIterationLimit(): string {
+    return `the iteration budget of ${this.limits.maxIterations} review iterations was used up`;
+  }
+
+  /**
+   * Why a Claude execution was cut off: its phase limit, or the runtime budget running out
+   */
+  describeTimeout(phase: BudgetPhase): string {
+    if (this.getRemainingMs() <= 0) {
+      return this.getExhausted()!;
+    }
+    const minutes = phase === 'develop' ? this.limits.maxDevelopMinutes : this.limits.maxIterateMinutes;
+    return `the ${phase} phase budget of ${minutes} minutes per Claude execution was exhausted`;
+  }
+}
+
+/**
+ * Thrown to end a run whose budget ran out
+ */
+export class BudgetExceededError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'BudgetExceededError';
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Claude Events
+ * Parses Claude Code's stream-json output (one JSON message per line) into typed events
+ */
+
+import { ClaudeEvent, ClaudeUsage } from './types';
+
+// Tools whose use is reported as a file edit rather than a plain tool call
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+// Longest tool call summary kept (e.g. a Bash command)
+const MAX_SUMMARY_LENGTH = 200;
+
+// Shell commands that run a test suite
+const TEST_COMMAND = new RegExp([
+  '\\b(npm|yarn|pnpm|bun)\\s+(run\\s+)?test',
+  '\\b(jest|vitest|mocha|pytest|tox|rspec|phpunit)\\b',
+  '\\b(go|cargo|dotnet|mix)\\s+test\\b',
+  '\\bpython3?\\s+-m\\s+(pytest|unittest)\\b',
+  '\\b(mvn|gradle|gradlew)\\b.*\\btest\\b',
+  '\\bmake\\s+(test|check)\\b'
+].join('|'));
+
+/**
+ * Whether a shell command runs tests
+ */
+export function isTestCommand(command: string): boolean {
+  return TEST_COMMAND.test(command);
+}
+
+/**
+ * The events in one line of output. Returns null for lines that aren't stream-json
+ * messages (e.g. stray CLI output), and an empty list for messages of no interest.
+ */
+export function parseStreamLine(line: string): ClaudeEvent[] | null {
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch (error) {
+    return null;
+  }
+
+  if (!message || typeof message.type !== 'string') {
+    return null;
+  }
+
+  if (message.type === 'assistant') {
+    const content = Array.isArray(message.message?.content) ? message.message.content : [];
+    const events: ClaudeEvent[] = content.map(parseContentBlock).filter((event: ClaudeEvent | null): event is ClaudeEvent => event !== null);
+    // Each message's tokens, in case the execution ends without a result message
+    const usage = message.message?.usage ? parseUsage({ usage: message.message.usage }) : undefined;
+    if (usage) {
+      events.push({ type: 'usage', messageId: message.message.id, usage });
+    }
+    return events;
+  }
+
+  // Tool results come back in user messages; only whether they failed is kept
+  if (message.type === 'user') {
+    const content = Array.isArray(message.message?.content) ? message.message.content : [];
+    return content
+      .filter((block: any) => block?.type === 'tool_result' && typeof block.tool_use_id === 'string')
+      .map((block: any): ClaudeEvent => ({ type: 'tool_result', id: block.tool_use_id, isError: block.is_error === true }));
+  }
+
+  if (message.type === 'result') {
+    return [{
+      type: 'result',
+      success: message.subtype === 'success' && !message.is_error,
+      result: typeof message.result === 'string' ? message.result : '',
+      usage: parseUsage(message),
+      turns: message.num_turns,
+      durationMs: message.duration_ms
+    }];
+  }
+
+  // system (init) messages
+  return [];
+}
+
+/**
+ * One line describing an event, for logs
+ */
+export function describeEvent(event: ClaudeEvent): string {
+  switch (event.type) {
+    case 'text':
+      return event.text.split('\n')[0].slice(0, MAX_SUMMARY_LENGTH);
+    case 'tool_call':
+      return event.summary ? `${event.tool}: ${event.summary}` : event.tool;
+    case 'file_edit':
+      return `${event.tool} ${event.path}`;
+    case 'tool_result':
+      return `${event.isError ? 'Failed' : 'Finished'} ${event.id}`;
+    case 'usage':
+      return `${event.usage.inputTokens} tokens in, ${event.usage.outputTokens} out`;
+    case 'result':
+      return `${event.success ? 'Finished' : 'Failed'} after ${event.turns ?? '?'} turns`;
+  }
+}
+
+function parseContentBlock(block: any): ClaudeEvent | null {
+  if (block?.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+    return { type: 'text', text: block.text };
+  }
+
+  if (block?.type === 'tool_use' && typeof block.name === 'string') {
+    const input = block.input || {};
+    const path = input.file_path || input.notebook_path;
+    if (EDIT_TOOLS.includes(block.name) && typeof path === 'string') {
+      return { type: 'file_edit', tool: block.name, path };
+    }
+    return { type: 'tool_call', tool: block.name, summary: summarizeInput(input), id: block.id };
+  }
+
+  return null;
+}
+
+/**
+ * The part of a tool's input that says what it did
+ */
+function summarizeInput(input: Record<string, any>): string {
+  const value = input.command ?? input.file_path ?? input.path ?? input.pattern ??
+    input.url ?? input.query ?? input.description ?? '';
+  const summary = String(value).replace(/\s+/g, ' ').trim();
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH)}...` : summary;
+}
+
+/**
+ * Token usage and cost of an execution, from its result message (or the tokens of
+ * one assistant message)
+ */
+function parseUsage(message: any): ClaudeUsage | undefined {
+  const usage = message.usage;
+  if (!usage && message.total_cost_usd === undefined) {
+    return undefined;
+  }
+
+  return {
+    inputTokens: (usage?.input_tokens || 0) +
+      (usage?.cache_creation_input_tokens || 0) +
+      (usage?.cache_read_input_tokens || 0),
+    outputTokens: usage?.output_tokens || 0,
+    costUsd: message.total_cost_usd ?? message.cost_usd ?? 0
+  };
+}
@@ -3,37 +3,68 @@
  * Interface for running Claude Code CLI
  */
 
-import { spawn, ChildProcess } from 'child_process';
+import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from './logger';
-import { ClaudeResult } from './types';
+import { scrubbedEnv } from './secrets';
+import { sandboxed } from './sandbox';
+import { ApiProxy, PLACEHOLDER_API_KEY } from './api-proxy';
+import { describeEvent, isTestCommand, parseStreamLine } from './claude-events';
+import { Transcript } from './transcript';
+import { ClaudeEvent, ClaudeResult, ClaudeUsage, TestRun } from './types';
+
+export interface ExecuteOptions {
+  label?: string;  // Names the execution in the transcript, e.g. "develop"
+  onEvent?: (event: ClaudeEvent) => void;
+}
+
+/**
+ * Total tokens of the assistant messages seen so far, for an execution that ended without
+ * a result message. Those messages carry no cost, so it is left at 0 and marked partial.
+ */
+function sumUsage(messageUsage: Map<string, ClaudeUsage>): ClaudeUsage | undefined {
+  if (messageUsage.size === 0) {
+    return undefined;
+  }
+
+  const usage: ClaudeUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, partial: true };
+  for (const message of messageUsage.values()) {
+    usage.inputTokens += message.inputTokens;
+    usage.outputTokens += message.outputTokens;
+  }
+  return usage;
+}
 
 export class ClaudeWrapper {
   private workingDir: string;
-  private apiKey: string;
-  private maxOutputLength: number = 50000; // Limit output size
+  private transcript?: Transcript;
+  private apiProxy?: ApiProxy;
+  private maxOutputLength: number = 50000; // Limit output that isn't stream-json
 
-  constructor(workingDir: string, apiKey: string) {
+  constructor(workingDir: string, transcript?: Transcript, apiProxy?: ApiProxy) {
     this.workingDir = workingDir;
-    this.apiKey = apiKey;
+    this.transcript = transcript;
+    this.apiProxy = apiProxy;
   }
 
   /**
-   * Get environment variables for Claude Code execution
+   * Get environment variables for Claude Code execution. No credentials: Claude talks to
+   * the API through the agent's proxy, which adds the key, and gets a placeholder instead.
    */
   private getEnv(): Record<string, string> {
     return {
-      ...process.env,
-      ANTHROPIC_API_KEY: this.apiKey,
+      ...scrubbedEnv(),
       PATH: process.env.PATH,
       // Force non-interactive mode
       CI: 'true',
       CLAUDE_NON_INTERACTIVE: 'true',
       AUTO_CONFIRM: 'true',
       NODE_ENV: 'production',
-      // Support custom Anthropic endpoints (e.g., TensorFoundry)
-      ...(process.env.ANTHROPIC_BASE_URL && { ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL }),
+      // Custom Anthropic endpoints (e.g., TensorFoundry) are the proxy's upstream
+      ...(this.apiProxy?.url
+        ? { ANTHROPIC_BASE_URL: this.apiProxy.url, ANTHROPIC_API_KEY: PLACEHOLDER_API_KEY }
+        : process.env.ANTHROPIC_BASE_URL && { ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL }),
       ...(process.env.DEFAULT_MODEL && { DEFAULT_MODEL: process.env.DEFAULT_MODEL }),
       ...(process.env.ANTHROPIC_MODEL && { ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL }),
       ...(process.env.ANTHROPIC_SMALL_FAST_MODEL && { ANTHROPIC_SMALL_FAST_MODEL: process.env.ANTHROPIC_SMALL_FAST_MODEL }),
@@ -45,195 +76,188 @@ export class ClaudeWrapper {
   /**
    * Execute Claude Code with a prompt
    */
-  async execute(prompt: string, timeoutMs: number = 30 * 60 * 1000): Promise<ClaudeResult> {
-    return new Promise((resolve) => {
-      logger.info('Starting Claude Code execution (non-interactive)');
+  async execute(
+    prompt: string,
+    timeoutMs: number = 30 * 60 * 1000,
+    options: ExecuteOptions = {}
+  ): Promise<ClaudeResult> {
+    logger.info('Starting Claude Code execution (non-interactive)');
 
-      const env = this.getEnv();
+    // Claude Code reads input from stdin
+    // Run in non-interactive mode - no confirmations, auto-proceed
+    return this.stream(['--yes', '--non-interactive'], prompt, timeoutMs, options);
+  }
+
+  /**
+   * Execute Claude Code with a file-based approach
+   * This is more reliable for complex prompts
+   */
+  async executeWithFile(
+    prompt: string,
+    timeoutMs: number = 30 * 60 * 1000,
+    options: ExecuteOptions = {}
+  ): Promise<ClaudeResult> {
+    // Create a temporary file with the prompt
+    const promptFile = path.join(this.workingDir, '.claude-prompt.txt');
+    try {
+      await fs.writeFile(promptFile, prompt, 'utf-8');
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: `Failed to setup execution: ${error}`
+      };
+    }
+
+    logger.info('Executing Claude Code with prompt file (non-interactive)');
+
+    try {
+      return await this.stream(['--prompt', promptFile, '--yes', '--non-interactive'], undefined, timeoutMs, options);
+    } finally {
+      // Clean up prompt file
+      await fs.unlink(promptFile).catch(() => undefined);
+    }
+  }
 
-      // Claude Code reads input from stdin
-      // Run in non-interactive mode - no confirmations, auto-proceed
-      const claude = spawn('claude', ['--yes', '--non-interactive'], {
+  /**
+   * Run Claude Code with streaming JSON output. Every line goes to the transcript;
+   * parsed events go to `onEvent` as they arrive. The result message supplies the
+   * output, usage and cost, so nothing has to be kept in memory but the edited files.
+   */
+  private stream(
+    args: string[],
+    input: string | undefined,
+    timeoutMs: number,
+    options: ExecuteOptions
+  ): Promise<ClaudeResult> {
+    return new Promise((resolve) => {
+      // As the sandbox user; a timeout's SIGTERM is passed on by sudo
+      const sandbox = sandboxed('claude', [...args, '--output-format', 'stream-json', '--verbose']);
+      const claude = spawn(sandbox.command, sandbox.args, {
         cwd: this.workingDir,
-        env: env,
-        stdio: ['pipe', 'pipe', 'pipe']
+        env: this.getEnv(),
+        stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
       });
 
-      let stdout = '';
+      this.transcript?.begin(options.label || 'claude');
+
+      let partial = '';
+      let plainOutput = '';  // Lines that aren't stream-json, in case the CLI doesn't support it
       let stderr = '';
-      const chunks: Buffer[] = [];
+      let result: Extract<ClaudeEvent, { type: 'result' }> | undefined;
+      const changes = new Set<string>();
+      const tests = new Map<string, TestRun>();  // By tool call id
+      const messageUsage = new Map<string, ClaudeUsage>();  // By message id; a message spans several lines
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) {
+          return;
+        }
+        this.transcript?.append(line);
 
-      // Collect stdout
-      claude.stdout?.on('data', (data: Buffer) => {
-        chunks.push(data);
-        const chunkStr = data.toString();
-        stdout += chunkStr;
-
-        // Log progress (but limit size)
-        if (stdout.length % 5000 < 100) {
-          logger.debug('Claude Code output fragment', {
-            length: stdout.length
-          });
+        const events = parseStreamLine(line);
+        if (events === null) {
+          plainOutput = (plainOutput + line + '\n').slice(-this.maxOutputLength);
+          return;
         }
-      });
 
-      // Collect stderr
-      claude.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+        for (const event of events) {
+          if (event.type === 'result') {
+            result = event;
+          } else if (event.type === 'file_edit') {
+            changes.add(event.path);
+          } else if (event.type === 'tool_call' && event.tool === 'Bash' && event.id && isTestCommand(event.summary)) {
+            tests.set(event.id, { command: event.summary, passed: false });
+          } else if (event.type === 'tool_result' && tests.has(event.id)) {
+            tests.get(event.id)!.passed = !event.isError;
+          } else if (event.type === 'usage') {
+            messageUsage.set(event.messageId || `message-${messageUsage.size}`, event.usage);
+          }
+          logger.debug('Claude Code event', { event: describeEvent(event) });
+          options.onEvent?.(event);
+        }
+      };
+
+      const finish = (claudeResult: ClaudeResult) => {
+        clearTimeout(timeout);
+        resolve({
+          ...claudeResult,
+          changes: Array.from(changes),
+          tests: Array.from(tests.values()),
+          // Without a result message (e.g. a timeout) the tokens are still counted, but not the cost
+          usage: result?.usage || sumUsage(messageUsage)
+        });
+      };
 
-      // Set timeout
       const timeout = setTimeout(() => {
         logger.warn('Claude Code execution timed out, terminating');
         claude.kill('SIGTERM');
-        resolve({
+        finish({
           success: false,
-          output: stdout.slice(-this.maxOutputLength),
-          error: `Execution timed out after ${timeoutMs}ms`
+          output: plainOutput,
+          error: `Execution timed out after ${timeoutMs}ms`,
+          timedOut: true
         });
       }, timeoutMs);
 
-      // Handle process exit
+      claude.stdout?.on('data', (data: Buffer) => {
+        const lines = (partial + data.toString()).split('\n');
+        partial = lines.pop() || '';
+        lines.forEach(handleLine);
+      });
+
+      claude.stderr?.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-this.maxOutputLength);
+      });
+
       claude.on('close', (code) => {
-        clearTimeout(timeout);
+        handleLine(partial);
+        const output = result ? result.result : plainOutput;
 
-        const fullOutput = stdout.slice(-this.maxOutputLength);
+        if (result?.usage) {
+          logger.info('Claude Code usage', result.usage);
+        }
 
-        if (code === 0 || code === null) {
+        if (code === 0) {
           logger.info('Claude Code execution completed', {
-            exitCode: code,
-            outputLength: fullOutput.length
-          });
-          resolve({
-            success: true,
-            output: fullOutput
+            turns: result?.turns,
+            filesEdited: changes.size
           });
+          finish({ success: true, output });
         } else {
-          logger.error('Claude Code execution failed', {
-            exitCode: code,
-            stderr
-          });
-          resolve({
+          logger.error('Claude Code execution failed', { exitCode: code, stderr });
+          finish({
             success: false,
-            output: fullOutput,
+            output,
             error: `Claude Code exited with code ${code}: ${stderr}`
           });
         }
       });
 
-      // Handle process error
       claude.on('error', (error) => {
-        clearTimeout(timeout);
         logger.error('Failed to start Claude Code', { error });
-        resolve({
+        finish({
           success: false,
           output: '',
           error: `Failed to start Claude Code: ${error.message}`
         });
       });
 
-      // Write prompt to stdin and close
-      try {
-        claude.stdin?.write(prompt);
-        claude.stdin?.end();
-      } catch (error) {
-        clearTimeout(timeout);
-        logger.error('Failed to write to Claude Code stdin', { error });
-        resolve({
-          success: false,
-          output: '',
-          error: `Failed to send prompt to Claude Code: ${error}`
-        });
-      }
-    });
-  }
-
-  /**
-   * Execute Claude Code with a file-based approach
-   * This is more reliable for complex prompts
-   */
-  async executeWithFile(
-    prompt: string,
-    timeoutMs: number = 30 * 60 * 1000
-  ): Promise<ClaudeResult> {
-    try {
-      // Create a temporary file with the prompt
-      const promptFile = path.join(this.workingDir, '.claude-prompt.txt');
-      await fs.writeFile(promptFile, prompt, 'utf-8');
-
-      logger.info('Executing Claude Code with prompt file (non-interactive)');
-
-      return new Promise((resolve) => {
-        const env = this.getEnv();
-
-        const claude = spawn('claude', ['--prompt', promptFile, '--yes', '--non-interactive'], {
-          cwd: this.workingDir,
-          env: env,
-          stdio: ['ignore', 'pipe', 'pipe']
-        });
-
-        let stdout = '';
-        let stderr = '';
-
-        const timeout = setTimeout(() => {
-          claude.kill('SIGTERM');
-          resolve({
+      if (input !== undefined) {
+        // Write prompt to stdin and close
+        try {
+          claude.stdin?.write(input);
+          claude.stdin?.end();
+        } catch (error) {
+          logger.error('Failed to write to Claude Code stdin', { error });
+          finish({
             success: false,
             output: '',
-            error: `Execution timed out after ${timeoutMs}ms`
+            error: `Failed to send prompt to Claude Code: ${error}`
           });
-        }, timeoutMs);
-
-        claude.stdout?.on('data', (data: Buffer) => {
-          stdout += data.toString();
-        });
-
-        claude.stderr?.on('data', (data: Buffer) => {
-          stderr += data.toString();
-        });
-
-        claude.on('close', async (code) => {
-          clearTimeout(timeout);
-
-          // Clean up prompt file
-          try {
-            await fs.unlink(promptFile);
-          } catch (e) {
-            // Ignore cleanup errors
-          }
-
-          const output = stdout.slice(-this.maxOutputLength);
-
-          if (code === 0) {
-            resolve({
-              success: true,
-              output: output
-            });
-          } else {
-            resolve({
-              success: false,
-              output: output,
-              error: `Claude Code exited with code ${code}: ${stderr}`
-            });
-          }
-        });
-
-        claude.on('error', (error) => {
-          clearTimeout(timeout);
-          resolve({
-            success: false,
-            output: '',
-            error: `Failed to start Claude Code: ${error.message}`
-          });
-        });
-      });
-    } catch (error) {
-      return {
-        success: false,
-        output: '',
-        error: `Failed to setup execution: ${error}`
-      };
-    }
+        }
+      }
+    });
   }
 
   /**
@@ -250,7 +274,8 @@ export class ClaudeWrapper {
     return new Promise((resolve) => {
       const env = this.getEnv();
 
-      const claude = spawn('claude', [command, ...args, '--yes'], {
+      const sandbox = sandboxed('claude', [command, ...args, '--yes']);
+      const claude = spawn(sandbox.command, sandbox.args, {
         cwd: this.workingDir,
         env: env,
         stdio: ['ignore', 'pipe', 'pipe']
@@ -342,6 +367,26 @@ Begin working on this issue now.
     return prompt;
   }
 
+  /**
+   * Build a prompt asking Claude to fix failed validation checks
+   */
+  buildValidationFixPrompt(failures: string, attempt: number, maxAttempts: number): string {
+    return `Your changes do not pass the repository's validation checks yet (fix attempt ${attempt} of ${maxAttempts}).
+
+## Failed Checks
+${failures}
+
+## Instructions
+1. Work out why each check failed from its output. The output may be cut short at the start.
+2. Fix the cause in the code; do not disable, skip or weaken the checks or tests.
+3. Run the failed commands again to confirm they pass.
+4. Commit the fixes with a descriptive commit message.
+5. When complete, respond with "DONE" and a summary of what was changed.
+
+Begin fixing the failures now.
+`;
+  }
+
   /**
    * Build a prompt for handling review feedback
    */
@@ -352,7 +397,7 @@ Begin working on this issue now.
 ${feedback}
 
 ## Instructions
-1. Read and understand the feedback.
+1. Read and understand the feedback. Inline comments are grouped by file, with the diff they refer to.
 2. Make the necessary changes to address the feedback.
 3. Test your changes if applicable.
 4. Commit the changes with a message like "Address review feedback: [summary]".
@@ -0,0 +1,52 @@
+/**
+ * Command Client
+ * Long-polls the orchestrator's command channel for feedback, abort, rebase, ...
+ */
+
+import axios from 'axios';
+import { logger } from './logger';
+import { QueuedCommand } from './types';
+
+export class CommandClient {
+  private orchestratorUrl: string;
+  private containerId: string;
+  private token: string;
+  private lastCommandId: number = 0;
+
+  constructor(orchestratorUrl: string, containerId: string, token: string) {
+    this.orchestratorUrl = orchestratorUrl;
+    this.containerId = containerId;
+    this.token = token;
+  }
+
+  /**
+   * Wait up to `waitSeconds` for new commands. Each call acknowledges the
+   * commands returned by the previous one. Returns an empty list on timeout or error.
+   */
+  async poll(waitSeconds: number = 30): Promise<QueuedCommand[]> {
+    try {
+      const response = await axios.get(
+        `${this.orchestratorUrl}/api/agents/${encodeURIComponent(this.containerId)}/commands`,
+        {
+          params: { after: this.lastCommandId, wait: waitSeconds },
+          timeout: (waitSeconds + 10) * 1000,
+          headers: {
+            'Authorization': `Bearer ${this.token}`
+          }
+        }
+      );
+
+      const commands: QueuedCommand[] = response.data?.commands || [];
+      const fresh = commands.filter(c => c.id > this.lastCommandId);
+      if (fresh.length > 0) {
+        this.lastCommandId = Math.max(...fresh.map(c => c.id));
+      }
+      return fresh;
+    } catch (error) {
+      logger.warn('Failed to poll orchestrator for commands', { error: String(error) });
+      // Back off briefly so an unreachable orchestrator doesn't cause a tight loop
+      await new Promise(resolve => setTimeout(resolve, 10 * 1000));
+      return [];
+    }
+  }
+}
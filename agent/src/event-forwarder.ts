@@ -0,0 +1,102 @@
+/**
+ * Event Forwarder
+ * Sends Claude Code events to the orchestrator in small batches while Claude runs
+ */
+
+import axios from 'axios';
+import { logger } from './logger';
+import { redact } from './redact';
+import { ClaudeEvent } from './types';
+
+// How often buffered events are sent
+const FLUSH_INTERVAL_MS = 5000;
+
+// Events kept while the orchestrator is unreachable; older ones are dropped
+const MAX_BUFFERED_EVENTS = 500;
+
+// Assistant text is forwarded trimmed; the transcript has it in full
+const MAX_TEXT_LENGTH = 500;
+
+export class EventForwarder {
+  private orchestratorUrl: string;
+  private containerId: string;
+  private token: string;
+  private buffer: Array<ClaudeEvent & { at: string }> = [];
+  private dropped: number = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(orchestratorUrl: string, containerId: string, token: string) {
+    this.orchestratorUrl = orchestratorUrl;
+    this.containerId = containerId;
+    this.token = token;
+  }
+
+  /**
+   * Queue an event for the next batch
+   */
+  forward(event: ClaudeEvent): void {
+    // Tool results and per-message usage only matter inside the container (e.g. for
+    // test outcomes); the orchestrator gets usage with status updates
+    if (event.type === 'tool_result' || event.type === 'usage') {
+      return;
+    }
+
+    if (event.type === 'text') {
+      event = { type: 'text', text: redact(event.text.slice(0, MAX_TEXT_LENGTH)) };
+    } else if (event.type === 'tool_call') {
+      event = { ...event, summary: redact(event.summary) };
+    } else if (event.type === 'result') {
+      event = { ...event, result: redact(event.result.slice(0, MAX_TEXT_LENGTH)) };
+    }
+
+    this.buffer.push({ ...event, at: new Date().toISOString() });
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.shift();
+      this.dropped++;
+    }
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.flush().catch(() => undefined);
+      }, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Send everything buffered now. Events stay buffered if the orchestrator can't be reached.
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const events = this.buffer;
+    const dropped = this.dropped;
+    this.buffer = [];
+    this.dropped = 0;
+
+    try {
+      await axios.post(
+        `${this.orchestratorUrl}/api/agents/${encodeURIComponent(this.containerId)}/events`,
+        { events, dropped },
+        {
+          timeout: 5000,
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.token}`
+          }
+        }
+      );
+    } catch (error) {
+      logger.warn('Failed to forward Claude events to orchestrator', { error: String(error) });
+      const merged = [...events, ...this.buffer];
+      this.buffer = merged.slice(-MAX_BUFFERED_EVENTS);
+      this.dropped += dropped + merged.length - this.buffer.length;
+    }
+  }
+}
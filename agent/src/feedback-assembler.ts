@@ -0,0 +1,180 @@
+/**
+ * Feedback Assembler
+ * Collects review feedback on the agent's PR (review bodies and inline review threads)
+ * into a structured form, and renders it for the {{feedback}} prompt variable
+ */
+
+import { GitOperations } from './git-operations';
+import { logger } from './logger';
+import { Identity } from './identity';
+import { AgentContext, ReviewThread } from './types';
+
+// Lines of diff context kept above each inline comment
+const HUNK_CONTEXT_LINES = 10;
+
+export interface ReviewSummary {
+  reviewer: string;
+  body: string;
+}
+
+export interface FeedbackThread {
+  id: string;
+  path: string;
+  line: number | null;
+  diffHunk: string;
+  comments: Array<{ id: number; author: string; body: string }>;
+}
+
+export interface FileFeedback {
+  path: string;
+  threads: FeedbackThread[];
+}
+
+export interface AssembledFeedback {
+  reviews: ReviewSummary[];
+  files: FileFeedback[];
+  skipped: {
+    resolved: number;
+    outdated: number;
+    addressed: number;
+  };
+}
+
+export class FeedbackAssembler {
+  private gitOps: GitOperations;
+  private context: AgentContext;
+  private identity: Identity;
+
+  constructor(gitOps: GitOperations, context: AgentContext, identity: Identity) {
+    this.gitOps = gitOps;
+    this.context = context;
+    this.identity = identity;
+  }
+
+  /**
+   * Gather the open feedback on a PR. `reviews` are top-level review bodies
+   * (e.g. the review that triggered this iteration).
+   */
+  async assemble(prNumber: number, reviews: ReviewSummary[]): Promise<AssembledFeedback> {
+    const threads = await this.gitOps.getReviewThreads(
+      prNumber,
+      this.context.repoOwner,
+      this.context.repoName
+    );
+
+    const feedback: AssembledFeedback = {
+      reviews: reviews.filter(r => r.body.trim().length > 0),
+      files: [],
+      skipped: { resolved: 0, outdated: 0, addressed: 0 }
+    };
+    const byFile = new Map<string, FeedbackThread[]>();
+
+    for (const thread of threads) {
+      if (thread.isResolved) {
+        feedback.skipped.resolved++;
+        continue;
+      }
+
+      if (thread.isOutdated) {
+        feedback.skipped.outdated++;
+        continue;
+      }
+
+      // The agent already replied and no reviewer has followed up since
+      if (this.isAddressed(thread)) {
+        feedback.skipped.addressed++;
+        continue;
+      }
+
+      const comments = thread.comments.filter(c => !this.identity.shouldIgnore(c.author, c.authorType));
+      if (comments.length === 0) {
+        continue;
+      }
+
+      const entry: FeedbackThread = {
+        id: thread.id,
+        path: thread.path,
+        line: thread.line,
+        diffHunk: this.trimHunk(thread.comments[0].diffHunk),
+        comments: comments.map(c => ({ id: c.id, author: c.author, body: c.body }))
+      };
+
+      const list = byFile.get(thread.path) || [];
+      list.push(entry);
+      byFile.set(thread.path, list);
+    }
+
+    feedback.files = Array.from(byFile.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, fileThreads]) => ({
+        path,
+        threads: fileThreads.sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+      }));
+
+    logger.info('Assembled review feedback', {
+      reviews: feedback.reviews.length,
+      files: feedback.files.length,
+      threads: feedback.files.reduce((n, f) => n + f.threads.length, 0),
+      skipped: feedback.skipped
+    });
+
+    return feedback;
+  }
+
+  /**
+   * Whether there is anything for the agent to act on
+   */
+  static isEmpty(feedback: AssembledFeedback): boolean {
+    return feedback.reviews.length === 0 && feedback.files.length === 0;
+  }
+
+  /**
+   * Render feedback as markdown for the {{feedback}} template variable
+   */
+  static render(feedback: AssembledFeedback): string {
+    const sections: string[] = [];
+
+    if (feedback.reviews.length > 0) {
+      sections.push(
+        '### Review comments\n\n' +
+        feedback.reviews.map(r => `@${r.reviewer}: ${r.body}`).join('\n\n')
+      );
+    }
+
+    if (feedback.files.length > 0) {
+      const files = feedback.files.map(file => {
+        const threads = file.threads.map(thread => {
+          const location = thread.line !== null ? `Line ${thread.line}` : 'File';
+          const comments = thread.comments.map(c => `- @${c.author}: ${c.body}`).join('\n');
+          return `#### ${location} (thread ${thread.id})\n\n` +
+            '```diff\n' + thread.diffHunk + '\n```\n\n' +
+            comments;
+        });
+        return `### ${file.path}\n\n${threads.join('\n\n')}`;
+      });
+
+      sections.push(`### Inline comments\n\n${files.join('\n\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * A thread counts as addressed when its last comment is the agent's own reply
+   */
+  private isAddressed(thread: ReviewThread): boolean {
+    const last = thread.comments[thread.comments.length - 1];
+    return thread.comments.length > 1 && !!last && this.identity.isSelf(last.author);
+  }
+
+  /**
+   * Keep the hunk header and the lines just above the commented line
+   */
+  private trimHunk(hunk: string): string {
+    const lines = hunk.split('\n');
+    if (lines.length <= HUNK_CONTEXT_LINES + 1) {
+      return hunk;
+    }
+    return [lines[0], ...lines.slice(-HUNK_CONTEXT_LINES)].join('\n');
+  }
+}
@@ -5,13 +5,20 @@
 
 import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
+import path from 'path';
 import { logger } from './logger';
+import { GitHubToken } from './github-token';
+import { scrubbedEnv } from './secrets';
+import { redact } from './redact';
+import { IssueDetails, ReviewThread } from './types';
 
 export class GitOperations {
   private git: SimpleGit;
   private workingDir: string;
+  private token: GitHubToken;
 
-  constructor(workingDir: string = '/workspace/repo') {
+  constructor(token: GitHubToken, workingDir: string = '/workspace/repo') {
+    this.token = token;
     this.workingDir = workingDir;
     // Configure git for non-interactive mode
     this.git = simpleGit(workingDir, {
@@ -21,7 +28,7 @@ export class GitOperations {
       ]
     });
     this.git.env({
-      ...process.env,
+      ...scrubbedEnv(),
       GIT_TERMINAL_PROMPT: '0',
       GITSSH_COMMAND: 'ssh -o BatchMode=yes'
     });
@@ -86,6 +93,7 @@ export class GitOperations {
     try {
       logger.info('Pushing to remote');
 
+      await this.refreshRemoteCredentials();
       await this.git.push('origin', 'HEAD', {
         '--force-with-lease': null
       });
@@ -101,6 +109,42 @@ export class GitOperations {
     }
   }
 
+  /**
+   * Rebase the current branch onto the latest remote base branch.
+   * Aborts the rebase (leaving the branch untouched) if there are conflicts.
+   */
+  async rebase(base: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      logger.info('Rebasing onto remote base branch', { base });
+
+      await this.refreshRemoteCredentials();
+      await this.git.fetch('origin', base);
+      await this.git.rebase([`origin/${base}`]);
+
+      logger.info('Rebase successful');
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to rebase, aborting', { base, error });
+      try {
+        await this.git.rebase(['--abort']);
+      } catch (abortError) {
+        // No rebase in progress
+      }
+      return {
+        success: false,
+        error: String(error)
+      };
+    }
+  }
+
+  /**
+   * Make sure the token file the git credential helper reads is current
+   * (refreshing the token rewrites it)
+   */
+  private async refreshRemoteCredentials(): Promise<void> {
+    await this.token.get();
+  }
+
   /**
    * Create a pull request using GitHub API
    */
@@ -110,26 +154,26 @@ export class GitOperations {
     base: string,
     owner: string,
     repo: string,
-    githubToken: string
+    draft: boolean = false
   ): Promise<{ success: boolean; prNumber?: number; prUrl?: string; error?: string }> {
     try {
-      logger.info('Creating pull request', { title, base });
+      logger.info('Creating pull request', { title, base, draft });
 
       const response = await fetch(
         `https://api.github.com/repos/${owner}/${repo}/pulls`,
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${githubToken}`,
+            'Authorization': `Bearer ${await this.token.get()}`,
             'Accept': 'application/vnd.github.v3+json',
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             title,
-            body,
+            body: redact(body),
             head: await this.git.revparse(['--abbrev-ref', 'HEAD']),
             base,
-            draft: false
+            draft
           })
         }
       );
@@ -156,14 +200,116 @@ export class GitOperations {
     }
   }
 
+  /**
+   * Replace a PR's title and body
+   */
+  async updatePR(
+    prNumber: number,
+    owner: string,
+    repo: string,
+    title: string,
+    body: string
+  ): Promise<boolean> {
+    try {
+      await this.rest('PATCH', `/repos/${owner}/${repo}/pulls/${prNumber}`, { title, body: redact(body) });
+      return true;
+    } catch (error) {
+      logger.error('Failed to update pull request', { prNumber, error });
+      return false;
+    }
+  }
+
+  /**
+   * Mark a draft PR ready for review (GraphQL; the REST API can't)
+   */
+  async markReadyForReview(prNumber: number, owner: string, repo: string): Promise<boolean> {
+    const mutation = `
+      mutation($pullRequestId: ID!) {
+        markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) {
+          pullRequest { isDraft }
+        }
+      }
+    `;
+
+    try {
+      const pr = await this.rest('GET', `/repos/${owner}/${repo}/pulls/${prNumber}`);
+      await this.graphql(mutation, { pullRequestId: pr.node_id });
+      logger.info('Pull request marked ready for review', { prNumber });
+      return true;
+    } catch (error) {
+      logger.error('Failed to mark pull request ready for review', { prNumber, error });
+      return false;
+    }
+  }
+
+  /**
+   * Request reviews from users and teams (team slugs, with or without the "org/" prefix)
+   */
+  async requestReviewers(
+    prNumber: number,
+    owner: string,
+    repo: string,
+    reviewers: string[],
+    teamReviewers: string[]
+  ): Promise<boolean> {
+    try {
+      await this.rest('POST', `/repos/${owner}/${repo}/pulls/${prNumber}/requested_reviewers`, {
+        reviewers,
+        team_reviewers: teamReviewers.map(team => team.split('/').pop())
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to request reviewers', { prNumber, reviewers, teamReviewers, error });
+      return false;
+    }
+  }
+
+  /**
+   * Add labels to an issue or PR
+   */
+  async addLabels(issueNumber: number, owner: string, repo: string, labels: string[]): Promise<boolean> {
+    try {
+      await this.rest('POST', `/repos/${owner}/${repo}/issues/${issueNumber}/labels`, { labels });
+      return true;
+    } catch (error) {
+      logger.error('Failed to add labels', { issueNumber, labels, error });
+      return false;
+    }
+  }
+
+  /**
+   * Assign users to an issue or PR
+   */
+  async addAssignees(issueNumber: number, owner: string, repo: string, assignees: string[]): Promise<boolean> {
+    try {
+      await this.rest('POST', `/repos/${owner}/${repo}/issues/${issueNumber}/assignees`, { assignees });
+      return true;
+    } catch (error) {
+      logger.error('Failed to add assignees', { issueNumber, assignees, error });
+      return false;
+    }
+  }
+
+  /**
+   * Comment on an issue or PR
+   */
+  async postComment(issueNumber: number, owner: string, repo: string, body: string): Promise<boolean> {
+    try {
+      await this.rest('POST', `/repos/${owner}/${repo}/issues/${issueNumber}/comments`, { body: redact(body) });
+      return true;
+    } catch (error) {
+      logger.error('Failed to post comment', { issueNumber, error });
+      return false;
+    }
+  }
+
   /**
    * Get reviews for a PR
    */
   async getPRReviews(
     prNumber: number,
     owner: string,
-    repo: string,
-    githubToken: string
+    repo: string
   ): Promise<any[]> {
     try {
       const response = await fetch(
@@ -171,7 +317,7 @@ export class GitOperations {
         {
           method: 'GET',
           headers: {
-            'Authorization': `Bearer ${githubToken}`,
+            'Authorization': `Bearer ${await this.token.get()}`,
             'Accept': 'application/vnd.github.v3+json'
           }
         }
@@ -195,8 +341,7 @@ export class GitOperations {
   async getPRComments(
     prNumber: number,
     owner: string,
-    repo: string,
-    githubToken: string
+    repo: string
   ): Promise<any[]> {
     try {
       const response = await fetch(
@@ -204,7 +349,7 @@ export class GitOperations {
         {
           method: 'GET',
           headers: {
-            'Authorization': `Bearer ${githubToken}`,
+            'Authorization': `Bearer ${await this.token.get()}`,
             'Accept': 'application/vnd.github.v3+json'
           }
         }
@@ -222,6 +367,254 @@ export class GitOperations {
     }
   }
 
+  /**
+   * Get an issue's author, labels, latest comments and linked issues, and the repo's
+   * languages (GraphQL). Returns null if they can't be fetched.
+   */
+  async getIssueDetails(issueNumber: number, owner: string, repo: string): Promise<IssueDetails | null> {
+    const query = `
+      query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+            nodes { name }
+          }
+          issue(number: $number) {
+            author { login }
+            labels(first: 50) {
+              nodes { name }
+            }
+            comments(last: 30) {
+              nodes {
+                body
+                createdAt
+                author { login __typename }
+              }
+            }
+            timelineItems(first: 50, itemTypes: [CROSS_REFERENCED_EVENT, CONNECTED_EVENT]) {
+              nodes {
+                ... on CrossReferencedEvent { source { ...linked } }
+                ... on ConnectedEvent { subject { ...linked } }
+              }
+            }
+          }
+        }
+      }
+
+      fragment linked on ReferencedSubject {
+        ... on Issue { number title state url repository { nameWithOwner } }
+        ... on PullRequest { number title state url repository { nameWithOwner } }
+      }
+    `;
+
+    try {
+      const data = await this.graphql(query, { owner, repo, number: issueNumber });
+      const repository = data?.repository;
+      const issue = repository?.issue;
+      if (!issue) {
+        return null;
+      }
+
+      // The same issue can be referenced many times
+      const linked = new Map<string, IssueDetails['linkedIssues'][number]>();
+      for (const node of issue.timelineItems?.nodes || []) {
+        const item = node?.source || node?.subject;
+        if (!item?.number) {
+          continue;
+        }
+        const itemRepo = item.repository?.nameWithOwner || `${owner}/${repo}`;
+        linked.set(`${itemRepo}#${item.number}`, {
+          repo: itemRepo,
+          number: item.number,
+          title: item.title,
+          state: item.state.toLowerCase(),
+          url: item.url,
+          isPullRequest: item.url.includes('/pull/')
+        });
+      }
+
+      return {
+        author: issue.author?.login || 'ghost',
+        labels: (issue.labels?.nodes || []).map((label: any) => label.name),
+        comments: (issue.comments?.nodes || []).map((comment: any) => ({
+          author: comment.author?.login || 'ghost',
+          authorType: comment.author?.__typename,
+          body: comment.body || '',
+          createdAt: comment.createdAt
+        })),
+        linkedIssues: Array.from(linked.values()),
+        languages: (repository.languages?.nodes || []).map((language: any) => language.name)
+      };
+    } catch (error) {
+      logger.error('Failed to get issue details', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Get review threads for a PR (GraphQL), including resolution/outdated state
+   * and the diff hunk each thread is attached to
+   */
+  async getReviewThreads(
+    prNumber: number,
+    owner: string,
+    repo: string
+  ): Promise<ReviewThread[]> {
+    const query = `
+      query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(first: 100) {
+              nodes {
+                id
+                isResolved
+                isOutdated
+                path
+                line
+                originalLine
+                comments(first: 50) {
+                  nodes {
+                    databaseId
+                    body
+                    diffHunk
+                    createdAt
+                    author { login __typename }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.graphql(query, { owner, repo, number: prNumber });
+      const nodes = data?.repository?.pullRequest?.reviewThreads?.nodes || [];
+
+      return nodes.map((thread: any) => ({
+        id: thread.id,
+        isResolved: thread.isResolved,
+        isOutdated: thread.isOutdated,
+        path: thread.path,
+        line: thread.line ?? thread.originalLine ?? null,
+        comments: (thread.comments?.nodes || []).map((comment: any) => ({
+          id: comment.databaseId,
+          author: comment.author?.login || 'ghost',
+          authorType: comment.author?.__typename,
+          body: comment.body || '',
+          diffHunk: comment.diffHunk || '',
+          createdAt: comment.createdAt
+        }))
+      }));
+    } catch (error) {
+      logger.error('Failed to get review threads', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Reply to an inline review comment (the reply joins the comment's thread)
+   */
+  async replyToReviewComment(
+    prNumber: number,
+    commentId: number,
+    body: string,
+    owner: string,
+    repo: string
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `https://api.github.com/repos/${owner}/${repo}/pulls/${prNumber}/comments/${commentId}/replies`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${await this.token.get()}`,
+            'Accept': 'application/vnd.github.v3+json',
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ body: redact(body) })
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`GitHub API error: ${response.status}`);
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to reply to review comment', { commentId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Mark a review thread as resolved (GraphQL)
+   */
+  async resolveReviewThread(threadId: string): Promise<boolean> {
+    const mutation = `
+      mutation($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) {
+          thread { id isResolved }
+        }
+      }
+    `;
+
+    try {
+      await this.graphql(mutation, { threadId });
+      return true;
+    } catch (error) {
+      logger.error('Failed to resolve review thread', { threadId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Call the GitHub REST API
+   */
+  private async rest(method: string, apiPath: string, body?: Record<string, any>): Promise<any> {
+    const response = await fetch(`https://api.github.com${apiPath}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${await this.token.get()}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`GitHub API error: ${response.status} - ${error}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Run a GitHub GraphQL query
+   */
+  private async graphql(query: string, variables: Record<string, any>): Promise<any> {
+    const response = await fetch('https://api.github.com/graphql', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${await this.token.get()}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ query, variables })
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub GraphQL error: ${response.status}`);
+    }
+
+    const result = await response.json() as any;
+    if (result.errors?.length) {
+      throw new Error(`GitHub GraphQL error: ${result.errors.map((e: any) => e.message).join('; ')}`);
+    }
+
+    return result.data;
+  }
+
   /**
    * Get the current branch name
    */
@@ -261,6 +654,90 @@ export class GitOperations {
     }
   }
 
+  /**
+   * Every file tracked in the repository
+   */
+  async listFiles(): Promise<string[]> {
+    try {
+      const output = await this.git.raw(['ls-files']);
+      return output.split('\n').map(line => line.trim()).filter(Boolean);
+    } catch (error) {
+      logger.error('Failed to list files', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Stage every change in the working tree
+   */
+  async stageAll(): Promise<void> {
+    await this.git.raw(['add', '-A']);
+  }
+
+  /**
+   * `git diff --stat` and the changed files of the branch (commits and staged
+   * changes) against the remote base branch
+   */
+  async getStagedDiffStat(base: string): Promise<{ stat: string; files: string[] }> {
+    try {
+      const stat = await this.git.diff(['--cached', '--stat', `origin/${base}`]);
+      const names = await this.git.diff(['--cached', '--name-only', `origin/${base}`]);
+      return {
+        stat: stat.trimEnd(),
+        files: names.split('\n').map(line => line.trim()).filter(Boolean)
+      };
+    } catch (error) {
+      logger.error('Failed to get diff stat', { base, error });
+      return { stat: '', files: [] };
+    }
+  }
+
+  /**
+   * The files the branch's commits change against the remote base branch
+   */
+  async getBranchFiles(base: string): Promise<string[]> {
+    try {
+      const names = await this.git.diff(['--name-only', `origin/${base}`, 'HEAD']);
+      return names.split('\n').map(line => line.trim()).filter(Boolean);
+    } catch (error) {
+      logger.error('Failed to get branch files', { base, error });
+      return [];
+    }
+  }
+
+  /**
+   * Put files back as they are on the remote base branch (deleting those it doesn't
+   * have) and stage the result
+   */
+  async restoreFromBase(files: string[], base: string): Promise<void> {
+    try {
+      for (const file of files) {
+        const inBase = await this.git.raw(['ls-tree', '--name-only', `origin/${base}`, '--', file]);
+        if (inBase.trim()) {
+          await this.git.raw(['checkout', `origin/${base}`, '--', file]);
+        } else {
+          await this.git.raw(['rm', '-f', '--cached', '--ignore-unmatch', '--', file]);
+          await fs.rm(path.join(this.workingDir, file), { force: true });
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to restore files from ${base}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the files touched by a commit
+   */
+  async getCommitFiles(hash: string): Promise<string[]> {
+    try {
+      const output = await this.git.show(['--name-only', '--pretty=format:', hash]);
+      return output.split('\n').map(line => line.trim()).filter(Boolean);
+    } catch (error) {
+      logger.error('Failed to get commit files', { hash, error });
+      return [];
+    }
+  }
+
   /**
    * Get diff for a file
    */
@@ -0,0 +1,71 @@
+/**
+ * GitHub Token
+ * Keeps the agent's GitHub token fresh. With a GitHub App the orchestrator hands out
+ * installation tokens that expire after an hour; a new one is fetched from the
+ * orchestrator shortly before that. Personal access tokens never expire and are used as-is.
+ * The token file the git credential helper reads is kept in step.
+ */
+
+import { logger } from './logger';
+import { writeSecret } from './secrets';
+import { AgentContext } from './types';
+
+// Fetch a new token this long before the current one expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class GitHubToken {
+  private context: AgentContext;
+  private token: string;
+  private expiresAt?: Date;
+  private refreshing?: Promise<string>;
+
+  constructor(context: AgentContext) {
+    this.context = context;
+    this.token = context.githubToken;
+    this.expiresAt = context.githubTokenExpiresAt ? new Date(context.githubTokenExpiresAt) : undefined;
+  }
+
+  /**
+   * Get a token that is valid for at least the next few minutes
+   */
+  async get(): Promise<string> {
+    if (!this.expiresAt || this.expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+      return this.token;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+
+    return this.refreshing;
+  }
+
+  private async refresh(): Promise<string> {
+    const { orchestratorUrl, containerId, orchestratorToken } = this.context;
+
+    try {
+      const response = await fetch(`${orchestratorUrl}/api/agents/${containerId}/github-token`, {
+        headers: { 'Authorization': `Bearer ${orchestratorToken}` }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Orchestrator returned ${response.status}`);
+      }
+
+      const data = await response.json() as any;
+      this.token = data.token;
+      this.expiresAt = data.expires_at ? new Date(data.expires_at) : undefined;
+      this.context.githubToken = this.token;
+      await writeSecret(this.context.secretsDir, 'github-token', this.token);
+
+      logger.info('Refreshed GitHub token', { expiresAt: data.expires_at });
+    } catch (error) {
+      // Keep using the current token; it may still have a few minutes left
+      logger.error('Failed to refresh GitHub token', { error });
+    }
+
+    return this.token;
+  }
+}
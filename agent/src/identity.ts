@@ -0,0 +1,73 @@
+/**
+ * Identity
+ * Decides whose PR comments the agent acts on, mirroring the orchestrator's rules:
+ * never its own, never other bots (GitHub's `type: Bot`) unless trusted, and never ignored users
+ */
+
+import { logger } from './logger';
+import { AgentContext } from './types';
+
+export class Identity {
+  private context: AgentContext;
+  private selfLogin?: string;
+
+  constructor(context: AgentContext) {
+    this.context = context;
+    this.selfLogin = context.agentLogin || undefined;
+  }
+
+  /**
+   * Resolve the login the agent's token acts as, unless the orchestrator passed it in
+   */
+  async init(): Promise<void> {
+    if (this.selfLogin) {
+      return;
+    }
+
+    try {
+      const response = await fetch('https://api.github.com/user', {
+        headers: {
+          'Authorization': `Bearer ${this.context.githubToken}`,
+          'Accept': 'application/vnd.github.v3+json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`GitHub API error: ${response.status}`);
+      }
+
+      const data = await response.json() as any;
+      this.selfLogin = data.login;
+      logger.info(`Acting on GitHub as ${this.selfLogin}`);
+    } catch (error) {
+      logger.error('Failed to resolve own GitHub login; only bot accounts will be ignored', { error });
+    }
+  }
+
+  /**
+   * Whether a login is the agent's own account
+   */
+  isSelf(login?: string): boolean {
+    return !!login && !!this.selfLogin && login.toLowerCase() === this.selfLogin.toLowerCase();
+  }
+
+  /**
+   * Whether to ignore a comment by this author
+   */
+  shouldIgnore(login?: string, type?: string): boolean {
+    if (!login || this.isSelf(login)) {
+      return true;
+    }
+
+    const lower = login.toLowerCase();
+    if (this.context.ignoreUsers.some(user => user.toLowerCase() === lower)) {
+      return true;
+    }
+
+    if (type === 'Bot' || lower.endsWith('[bot]')) {
+      return !this.context.trustedBots.some(bot => bot.toLowerCase() === lower);
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * PR Composer
+ * Builds the PR title, PR body and commit message from what Claude did: its final
+ * "DONE" summary, the diff against the base branch and how the work was validated
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GitOperations } from './git-operations';
+import { renderTemplate } from './template';
+import { Validator } from './validator';
+import { logger } from './logger';
+import { AgentContext, ClaudeResult, TestRun, ValidationCheck, ValidationResult } from './types';
+
+const DEFAULT_TITLE = 'Fix #{{issue_number}}: {{issue_title}}';
+
+const DEFAULT_BODY = `## Summary
+{{summary}}
+
+## Changes
+{{files}}
+
+{{#if diff_stat}}
+\`\`\`
+{{diff_stat}}
+\`\`\`
+{{/if}}
+
+## Tests
+{{#if validation}}
+{{validation}}
+
+{{/if}}
+{{tests}}
+
+Closes #{{issue_number}}`;
+
+const DEFAULT_COMMIT_MESSAGE = `Fix #{{issue_number}}: {{issue_title}}
+
+{{summary}}
+
+Closes #{{issue_number}}`;
+
+const FOOTER = '---\n*This PR was created by an AI agent. Please review carefully before merging.*';
+
+// Where GitHub looks for a repository's PR template
+const REPO_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md'
+];
+
+// Sections of a repo's PR template filled with each variable, by heading
+const TEMPLATE_SECTIONS: Array<[string, RegExp]> = [
+  ['summary', /summary|description|what|why|overview|motivation|context/i],
+  ['files', /change|files/i],
+  ['tests', /test|verif|qa\b/i]
+];
+
+// Longest summary kept; Claude occasionally writes essays
+const MAX_SUMMARY_LENGTH = 4000;
+
+// Output shown under a failed check; the rest is in the transcript
+const MAX_CHECK_OUTPUT_LENGTH = 2000;
+
+export interface ComposedPR {
+  title: string;
+  body: string;
+  commitMessage: string;
+}
+
+export class PRComposer {
+  private gitOps: GitOperations;
+  private context: AgentContext;
+  private workingDir: string;
+  private issueBody: string;
+
+  constructor(gitOps: GitOperations, context: AgentContext, workingDir: string = '/workspace/repo') {
+    this.gitOps = gitOps;
+    this.context = context;
+    this.workingDir = workingDir;
+    // The agent later replaces the context's issue body with the analysis prompt
+    this.issueBody = context.issueBody;
+  }
+
+  /**
+   * Stage the work and render the title, body and commit message for it
+   */
+  async compose(result: ClaudeResult, baseBranch: string, validation?: ValidationResult): Promise<ComposedPR> {
+    await this.gitOps.stageAll();
+    const diff = await this.gitOps.getStagedDiffStat(baseBranch);
+    const files = diff.files.length > 0 ? diff.files : result.changes || [];
+    const summary = PRComposer.extractSummary(result.output);
+
+    const variables: Record<string, string> = {
+      summary: summary || `Changes for #${this.context.issueNumber}.`,
+      headline: PRComposer.getHeadline(summary) || this.context.issueTitle,
+      files: files.map(file => `- \`${file}\``).join('\n'),
+      diff_stat: diff.stat,
+      tests: validation?.checks && validation.checks.length > 0
+        ? PRComposer.formatChecks(validation.checks)
+        : PRComposer.formatTests(result.tests || []),
+      validation: validation ? PRComposer.formatVerdict(validation) : '',
+      issue_title: this.context.issueTitle,
+      issue_body: this.issueBody || '',
+      issue_number: this.context.issueNumber.toString(),
+      repo_owner: this.context.repoOwner,
+      repo_name: this.context.repoName,
+      branch_name: this.context.branchName
+    };
+
+    const repoTemplate = await this.readRepoTemplate();
+    variables.pr_template = repoTemplate ? PRComposer.fillRepoTemplate(repoTemplate, variables) : '';
+
+    const { title, body, commitMessage } = this.context.prTemplates;
+    let prBody: string;
+    if (body) {
+      prBody = renderTemplate(body, variables);
+    } else if (variables.pr_template) {
+      prBody = `${variables.pr_template}\n\nCloses #${variables.issue_number}`;
+    } else {
+      prBody = renderTemplate(DEFAULT_BODY, variables);
+    }
+
+    return {
+      title: renderTemplate(title || DEFAULT_TITLE, variables).split('\n')[0].trim().slice(0, 256),
+      body: tidy(`${prBody}\n\n${FOOTER}`),
+      commitMessage: tidy(renderTemplate(commitMessage || DEFAULT_COMMIT_MESSAGE, variables))
+    };
+  }
+
+  /**
+   * The summary Claude gave after "DONE" (or before it, if nothing follows),
+   * or its whole final message if it didn't say DONE
+   */
+  static extractSummary(output: string): string {
+    const text = output.trim();
+    const markers = Array.from(text.matchAll(/^[\s#*_>-]*DONE\b[*_]*[:.!\s-]*/gm));
+    const marker = markers[markers.length - 1];
+
+    let summary = text;
+    if (marker && marker.index !== undefined) {
+      const after = text.slice(marker.index + marker[0].length).trim();
+      summary = after || text.slice(0, marker.index).trim();
+    }
+
+    // Templates supply their own heading
+    summary = summary.replace(/^[#*_\s]*summary[*_]*:?[*_]*[ \t]*\n+/i, '').trim();
+
+    return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH)}...` : summary;
+  }
+
+  /**
+   * The first line of a summary that says something, without markdown decoration
+   */
+  static getHeadline(summary: string): string {
+    for (const line of summary.split('\n')) {
+      const text = line.replace(/^[\s#*_>-]+|[*_]+$/g, '').trim();
+      if (text && !/^summary:?$/i.test(text)) {
+        return text.length > 72 ? `${text.slice(0, 69)}...` : text;
+      }
+    }
+    return '';
+  }
+
+  static formatTests(tests: TestRun[]): string {
+    if (tests.length === 0) {
+      return 'No tests were run by the agent.';
+    }
+    return tests.map(test => `- ${test.passed ? '✅' : '❌'} \`${test.command}\``).join('\n');
+  }
+
+  /**
+   * The validation checks run, with the end of the output of each that failed
+   */
+  static formatChecks(checks: ValidationCheck[]): string {
+    return checks.map(check => {
+      const line = `- ${check.passed ? '✅' : '❌'} \`${check.command}\` ` +
+        (check.passed ? `(${Math.round(check.durationMs / 1000)}s)` : Validator.describeOutcome(check));
+      if (check.passed || !check.output) {
+        return line;
+      }
+      const output = check.output.length > MAX_CHECK_OUTPUT_LENGTH
+        ? `...${check.output.slice(-MAX_CHECK_OUTPUT_LENGTH)}`
+        : check.output;
+      return `${line}\n\n<details><summary>Output</summary>\n\n\`\`\`\n${output}\n\`\`\`\n\n</details>\n`;
+    }).join('\n');
+  }
+
+  /**
+   * One line saying whether the work passed validation
+   */
+  static formatVerdict(validation: ValidationResult): string {
+    const checks = validation.checks || [];
+    if (checks.length === 0) {
+      return '';
+    }
+
+    const fixes = validation.fixAttempts
+      ? ` after ${validation.fixAttempts} fix attempt${validation.fixAttempts === 1 ? '' : 's'}`
+      : '';
+    if (validation.passed) {
+      return `✅ **Validation passed**${fixes}.`;
+    }
+    return `❌ **Validation failed**${fixes}: ${checks.filter(check => !check.passed).length} of ${checks.length} checks still fail.`;
+  }
+
+  /**
+   * Fill a repository's PR template: the summary, files and tests go into the sections
+   * whose headings ask for them (replacing placeholder comments), everything else
+   * (checklists, notes) is kept. A summary with no section to go in comes first.
+   */
+  static fillRepoTemplate(template: string, variables: Record<string, string>): string {
+    const lines = template.replace(/<!--[\s\S]*?-->/g, '').split('\n');
+    const sections: Array<{ heading?: string; body: string[] }> = [{ body: [] }];
+
+    for (const line of lines) {
+      if (/^#{1,6}\s+\S/.test(line)) {
+        sections.push({ heading: line, body: [] });
+      } else {
+        sections[sections.length - 1].body.push(line);
+      }
+    }
+
+    const used = new Set<string>();
+    for (const section of sections) {
+      if (!section.heading) {
+        continue;
+      }
+      const match = TEMPLATE_SECTIONS.find(([name, pattern]) => !used.has(name) && pattern.test(section.heading!));
+      if (match && variables[match[0]]) {
+        used.add(match[0]);
+        const existing = section.body.join('\n').trim();
+        section.body = ['', variables[match[0]], ...(existing ? ['', existing] : []), ''];
+      }
+    }
+
+    let filled = sections
+      .map(section => [...(section.heading ? [section.heading] : []), ...section.body].join('\n'))
+      .join('\n')
+      .trim();
+
+    if (!used.has('summary')) {
+      filled = `${variables.summary}\n\n${filled}`;
+    }
+    return filled;
+  }
+
+  private async readRepoTemplate(): Promise<string | null> {
+    for (const file of REPO_TEMPLATE_PATHS) {
+      try {
+        const content = await fs.readFile(path.join(this.workingDir, file), 'utf-8');
+        logger.info(`Using the repository's PR template ${file}`);
+        return content;
+      } catch (error) {
+        // Not there, try the next location
+      }
+    }
+    return null;
+  }
+}
+
+// Collapse the blank lines left by empty variables and conditionals
+function tidy(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
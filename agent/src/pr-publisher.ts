@@ -0,0 +1,179 @@
+/**
+ * PR Publisher
+ * Opens the agent's PR and hands it to reviewers. In draft mode the PR is opened as a
+ * draft at Claude's first commit, follows its progress, and is only marked ready for
+ * review (with reviewers, labels and assignees) once the work passes validation.
+ * Progress is only pushed while Claude's commits stay within the repo's allowed paths.
+ */
+
+import { GitOperations } from './git-operations';
+import { AllowedPaths } from './allowed-paths';
+import { ComposedPR } from './pr-composer';
+import { logger } from './logger';
+import { AgentContext, ClaudeEvent, PRCreationResult, PRWorkflow, ValidationResult } from './types';
+
+// Shell commands that create a commit
+const COMMIT_COMMAND = /\bgit\s+(-\S+\s+)*commit\b/;
+
+export class PRPublisher {
+  private gitOps: GitOperations;
+  private context: AgentContext;
+  private allowedPaths: AllowedPaths;
+  private workflow: PRWorkflow;
+  private onOpened: (pr: PRCreationResult) => Promise<void>;
+  private pr?: { number: number; url: string; draft: boolean };
+  private promoted: boolean = false;
+  private commitCalls: Set<string> = new Set();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    gitOps: GitOperations,
+    context: AgentContext,
+    allowedPaths: AllowedPaths,
+    onOpened: (pr: PRCreationResult) => Promise<void>
+  ) {
+    this.gitOps = gitOps;
+    this.context = context;
+    this.allowedPaths = allowedPaths;
+    this.workflow = context.prWorkflow;
+    this.onOpened = onOpened;
+  }
+
+  get prNumber(): number | undefined {
+    return this.pr?.number;
+  }
+
+  get isDraft(): boolean {
+    return !!this.pr?.draft;
+  }
+
+  /**
+   * Watch Claude's events for commits. In draft mode each successful `git commit`
+   * is pushed, and the first one opens the draft PR.
+   */
+  handleEvent(event: ClaudeEvent, baseBranch: string): void {
+    if (!this.workflow.draft) {
+      return;
+    }
+
+    if (event.type === 'tool_call' && event.tool === 'Bash' && event.id && COMMIT_COMMAND.test(event.summary)) {
+      this.commitCalls.add(event.id);
+    } else if (event.type === 'tool_result' && this.commitCalls.delete(event.id) && !event.isError) {
+      this.pending = this.pending.then(() => this.pushProgress(baseBranch));
+    }
+  }
+
+  /**
+   * Wait for the pushes started by Claude's commits
+   */
+  async settle(): Promise<void> {
+    await this.pending;
+  }
+
+  /**
+   * Open the PR for the finished work, or bring the draft's title and body up to date.
+   * The work must already be committed and pushed.
+   */
+  async publish(pr: ComposedPR, baseBranch: string): Promise<PRCreationResult> {
+    await this.settle();
+
+    if (this.pr) {
+      await this.gitOps.updatePR(this.pr.number, this.context.repoOwner, this.context.repoName, pr.title, pr.body);
+      return { success: true, prNumber: this.pr.number, prUrl: this.pr.url };
+    }
+
+    return this.open(pr.title, pr.body, baseBranch);
+  }
+
+  /**
+   * Hand the PR to reviewers: mark a draft ready for review, then request reviewers and
+   * add labels and assignees. A draft whose validation failed stays a draft, with a
+   * comment saying why; call again after the next iteration. Returns whether the PR is
+   * ready for review.
+   */
+  async promote(validation: ValidationResult): Promise<boolean> {
+    if (!this.pr || this.promoted) {
+      return this.promoted;
+    }
+
+    const { repoOwner, repoName } = this.context;
+
+    if (this.pr.draft) {
+      if (!validation.passed) {
+        logger.info('Validation failed, leaving the PR as a draft', { prNumber: this.pr.number });
+        await this.gitOps.postComment(
+          this.pr.number,
+          repoOwner,
+          repoName,
+          `🚧 Keeping this PR as a draft: validation did not pass.\n\n${validation.summary}`
+        );
+        return false;
+      }
+
+      if (!await this.gitOps.markReadyForReview(this.pr.number, repoOwner, repoName)) {
+        return false;
+      }
+      this.pr.draft = false;
+    }
+
+    const { reviewers = [], teamReviewers = [], labels = [], assignees = [] } = this.workflow;
+    if (reviewers.length > 0 || teamReviewers.length > 0) {
+      await this.gitOps.requestReviewers(this.pr.number, repoOwner, repoName, reviewers, teamReviewers);
+    }
+    if (labels.length > 0) {
+      await this.gitOps.addLabels(this.pr.number, repoOwner, repoName, labels);
+    }
+    if (assignees.length > 0) {
+      await this.gitOps.addAssignees(this.pr.number, repoOwner, repoName, assignees);
+    }
+
+    this.promoted = true;
+    logger.info('Pull request ready for review', { prNumber: this.pr.number, reviewers, teamReviewers, labels });
+    return true;
+  }
+
+  /**
+   * Push Claude's latest commit, opening the draft PR the first time. Commits that touch
+   * files outside the allowed paths stay local until the agent has reverted those files.
+   */
+  private async pushProgress(baseBranch: string): Promise<void> {
+    if (this.allowedPaths.restricted) {
+      const disallowed = this.allowedPaths.filter(await this.gitOps.getBranchFiles(baseBranch));
+      if (disallowed.length > 0) {
+        logger.warn('Not pushing progress: commits change files outside the allowed paths', { files: disallowed });
+        return;
+      }
+    }
+
+    const push = await this.gitOps.push();
+    if (!push.success || this.pr) {
+      return;
+    }
+
+    const { issueNumber, issueTitle } = this.context;
+    await this.open(
+      `Fix #${issueNumber}: ${issueTitle}`,
+      `🚧 The agent is still working on #${issueNumber}. This draft follows its progress and will be ` +
+      `marked ready for review once the changes pass validation.\n\nCloses #${issueNumber}`,
+      baseBranch
+    );
+  }
+
+  private async open(title: string, body: string, baseBranch: string): Promise<PRCreationResult> {
+    const draft = !!this.workflow.draft;
+    const result = await this.gitOps.createPR(
+      title,
+      body,
+      baseBranch,
+      this.context.repoOwner,
+      this.context.repoName,
+      draft
+    );
+
+    if (result.success && result.prNumber) {
+      this.pr = { number: result.prNumber, url: result.prUrl || '', draft };
+      await this.onOpened(result);
+    }
+    return result;
+  }
+}
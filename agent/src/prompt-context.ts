@@ -0,0 +1,137 @@
+/**
+ * Prompt Context
+ * The variables prompt templates are rendered with: the issue and its discussion, what
+ * links to it, who asked for the run, the repository's languages and a summary of its files
+ */
+
+import { GitOperations } from './git-operations';
+import { Identity } from './identity';
+import { logger } from './logger';
+import { AgentContext } from './types';
+
+// Only the latest comments, each cut short, so a long discussion doesn't crowd out the task
+const MAX_COMMENTS = 20;
+const MAX_COMMENT_LENGTH = 2000;
+
+// Lines in the file tree summary
+const MAX_TREE_LINES = 60;
+
+export interface PromptVariables {
+  [name: string]: string | string[] | Array<Record<string, string | number | boolean>>;
+  issue_title: string;
+  issue_body: string;
+  issue_number: string;
+  issue_author: string;
+  repo_owner: string;
+  repo_name: string;
+  branch_name: string;
+  trigger_author: string;
+  labels: string[];
+  comments: Array<{ author: string; body: string; created_at: string }>;
+  linked_issues: Array<{ repo: string; number: number; title: string; state: string; url: string; is_pull_request: boolean }>;
+  languages: string[];
+  file_tree: string;
+}
+
+export class PromptContext {
+  private gitOps: GitOperations;
+  private context: AgentContext;
+  private identity: Identity;
+  private issueBody: string;
+  private variables?: PromptVariables;
+
+  constructor(gitOps: GitOperations, context: AgentContext, identity: Identity) {
+    this.gitOps = gitOps;
+    this.context = context;
+    this.identity = identity;
+    this.issueBody = context.issueBody;
+  }
+
+  /**
+   * Gather the variables on first use (the repository must be cloned by then); later
+   * calls reuse them. What can't be fetched is left empty rather than failing the run.
+   */
+  async get(): Promise<PromptVariables> {
+    if (this.variables) {
+      return this.variables;
+    }
+
+    const { repoOwner, repoName, issueNumber } = this.context;
+    const details = await this.gitOps.getIssueDetails(issueNumber, repoOwner, repoName);
+    if (!details) {
+      logger.warn('Rendering the prompt without the issue\'s labels, comments and linked issues');
+    }
+    const author = details?.author || '';
+
+    this.variables = {
+      issue_title: this.context.issueTitle,
+      issue_body: this.issueBody || '',
+      issue_number: issueNumber.toString(),
+      issue_author: author,
+      repo_owner: repoOwner,
+      repo_name: repoName,
+      branch_name: this.context.branchName,
+      trigger_author: this.context.triggerAuthor || author,
+      labels: details?.labels || [],
+      comments: (details?.comments || [])
+        .filter(comment => !this.identity.shouldIgnore(comment.author, comment.authorType))
+        .slice(-MAX_COMMENTS)
+        .map(comment => ({
+          author: comment.author,
+          body: comment.body.length > MAX_COMMENT_LENGTH ? `${comment.body.slice(0, MAX_COMMENT_LENGTH)}...` : comment.body,
+          created_at: comment.createdAt
+        })),
+      linked_issues: (details?.linkedIssues || []).map(issue => ({
+        repo: issue.repo,
+        number: issue.number,
+        title: issue.title,
+        state: issue.state,
+        url: issue.url,
+        is_pull_request: issue.isPullRequest
+      })),
+      languages: details?.languages || [],
+      file_tree: PromptContext.summarizeFileTree(await this.gitOps.listFiles())
+    };
+    return this.variables;
+  }
+
+  /**
+   * The top two levels of the repository: directories with how many files they hold,
+   * and the files at the top level
+   */
+  static summarizeFileTree(files: string[]): string {
+    const directories = new Map<string, { count: number; children: Map<string, number> }>();
+    const topFiles: string[] = [];
+
+    for (const file of files) {
+      const parts = file.split('/');
+      if (parts.length === 1) {
+        topFiles.push(file);
+        continue;
+      }
+
+      const directory = directories.get(parts[0]) || { count: 0, children: new Map() };
+      directory.count++;
+      if (parts.length > 2) {
+        directory.children.set(parts[1], (directory.children.get(parts[1]) || 0) + 1);
+      }
+      directories.set(parts[0], directory);
+    }
+
+    const plural = (count: number) => `${count} file${count === 1 ? '' : 's'}`;
+    const lines: string[] = [];
+    for (const [name, directory] of Array.from(directories).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`${name}/ (${plural(directory.count)})`);
+      for (const [child, count] of Array.from(directory.children).sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(`  ${name}/${child}/ (${plural(count)})`);
+      }
+    }
+    lines.push(...topFiles.sort());
+
+    if (lines.length > MAX_TREE_LINES) {
+      const hidden = lines.length - MAX_TREE_LINES;
+      return [...lines.slice(0, MAX_TREE_LINES), `... and ${hidden} more`].join('\n');
+    }
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Redaction
+ * Scrubs credentials from text before it leaves the agent (logs, PR bodies, review replies)
+ */
+
+const REDACTED = '[REDACTED]';
+
+// Credential formats redacted even when the exact value isn't known here
+const TOKEN_PATTERNS: Array<[RegExp, string]> = [
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}\b/g, REDACTED],
+  [/\bgithub_pat_[A-Za-z0-9_]{20,}\b/g, REDACTED],
+  [/\bsk-ant-[A-Za-z0-9_-]{20,}/g, REDACTED],
+  [/(https?:\/\/[^\s:@/]+:)[^\s@/]+@/g, `$1${REDACTED}@`],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]{20,}/g, `$1${REDACTED}`]
+];
+
+// Short values would redact ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+const secrets = new Set<string>();
+
+/**
+ * Remember a secret value so it is redacted wherever it appears
+ */
+export function addSecret(value?: string): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Replace known secret values and anything that looks like a credential
+ */
+export function redact(text: string): string {
+  let result = text;
+
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+
+  for (const [pattern, replacement] of TOKEN_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+
+  return result;
+}
@@ -0,0 +1,124 @@
+/**
+ * Review Responder
+ * After an iteration, replies on each inline review thread with what the agent did about it,
+ * resolving the threads it reported as addressed and leaving the rest open with a note
+ */
+
+import { GitOperations } from './git-operations';
+import { logger } from './logger';
+import { AgentContext } from './types';
+import { AssembledFeedback, FeedbackThread } from './feedback-assembler';
+
+export interface ThreadOutcome {
+  thread: FeedbackThread;
+  addressed: boolean;
+  explanation: string;
+  inferred?: boolean;  // Not reported by Claude, only guessed from the files that changed
+  fileChanged: boolean;  // The iteration's commit changed the thread's file
+}
+
+export class ReviewResponder {
+  private gitOps: GitOperations;
+  private context: AgentContext;
+
+  constructor(gitOps: GitOperations, context: AgentContext) {
+    this.gitOps = gitOps;
+    this.context = context;
+  }
+
+  /**
+   * Instructions appended to the feedback so Claude reports what it did per thread
+   */
+  static instructions(feedback: AssembledFeedback): string {
+    if (feedback.files.length === 0) {
+      return '';
+    }
+
+    return '\n\n### Reporting\n\n' +
+      'When you are done, end your response with one line per inline thread above:\n' +
+      '`ADDRESSED <thread id>: <one-line summary of the change>` or\n' +
+      '`NOT ADDRESSED <thread id>: <one-line reason>`';
+  }
+
+  /**
+   * Work out per-thread outcomes from Claude's report, falling back to whether
+   * the thread's file changed in the iteration commit
+   */
+  determineOutcomes(feedback: AssembledFeedback, output: string, changedFiles: string[]): ThreadOutcome[] {
+    const reported = new Map<string, { addressed: boolean; explanation: string }>();
+    const pattern = /^\W*(NOT ADDRESSED|ADDRESSED)\s+(\S+?):\s*(.+)$/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(output)) !== null) {
+      reported.set(match[2], {
+        addressed: match[1] === 'ADDRESSED',
+        explanation: match[3].trim().replace(/`+$/, '')
+      });
+    }
+
+    const changed = new Set(changedFiles);
+    const outcomes: ThreadOutcome[] = [];
+
+    for (const file of feedback.files) {
+      for (const thread of file.threads) {
+        const report = reported.get(thread.id);
+        const fileChanged = changed.has(thread.path);
+        if (report) {
+          outcomes.push({ thread, ...report, fileChanged });
+        } else if (fileChanged) {
+          outcomes.push({ thread, addressed: true, inferred: true, fileChanged, explanation: `Updated \`${thread.path}\`.` });
+        } else {
+          outcomes.push({ thread, addressed: false, fileChanged, explanation: 'No change was made for this comment.' });
+        }
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Reply on each thread and resolve the ones Claude reported as addressed whose file the
+   * commit changed. Threads whose file merely changed, or that Claude reported as addressed
+   * without a commit touching their file, are left open for the reviewer to resolve.
+   */
+  async respond(prNumber: number, outcomes: ThreadOutcome[], commitHash?: string): Promise<void> {
+    const { repoOwner, repoName } = this.context;
+    let resolved = 0;
+
+    for (const outcome of outcomes) {
+      const replyTo = outcome.thread.comments[outcome.thread.comments.length - 1];
+      if (!replyTo) {
+        continue;
+      }
+
+      const verified = outcome.addressed && !outcome.inferred && outcome.fileChanged && !!commitHash;
+      const body = outcome.inferred
+        ? `🔄 Possibly addressed${commitHash ? ` in ${commitHash}` : ''}: ${outcome.explanation}\n\nPlease check and resolve this thread if it's done.`
+        : verified
+        ? `✅ Addressed in ${commitHash}: ${outcome.explanation}`
+        : outcome.addressed
+        ? `🔄 Reported as addressed: ${outcome.explanation}\n\nNo commit in this iteration changed \`${outcome.thread.path}\`, so please check and resolve this thread if it's done.`
+        : `⏸️ Not addressed in this iteration: ${outcome.explanation}\n\nReply in this thread if you'd like the agent to try again.`;
+
+      const replied = await this.gitOps.replyToReviewComment(
+        prNumber,
+        replyTo.id,
+        body,
+        repoOwner,
+        repoName
+      );
+
+      if (replied && verified) {
+        if (await this.gitOps.resolveReviewThread(outcome.thread.id)) {
+          resolved++;
+        }
+      }
+    }
+
+    logger.info('Replied to review threads', {
+      threads: outcomes.length,
+      resolved,
+      open: outcomes.length - resolved
+    });
+  }
+}
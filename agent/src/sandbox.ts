@@ -0,0 +1,50 @@
+/**
+ * Sandbox
+ * Claude and the repository's own commands (validation, tests) run as a separate user,
+ * SANDBOX_USER, who can't read the secrets directory. The agent switches to it with sudo;
+ * without SANDBOX_USER (e.g. outside the container) they run as the agent itself.
+ */
+
+import { spawnSync } from 'child_process';
+import { logger } from './logger';
+
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * The command line that runs a command as the sandbox user. The environment is passed on
+ * as given (callers scrub it first) and files it creates stay writable by the agent's group.
+ */
+export function sandboxed(command: string, args: string[]): SandboxedCommand {
+  const user = process.env.SANDBOX_USER;
+  if (!user) {
+    return { command, args };
+  }
+
+  return {
+    command: 'sudo',
+    args: ['-n', '-E', '-H', '-u', user, '--', 'sh', '-c', 'umask 002 && exec "$@"', 'sh', command, ...args]
+  };
+}
+
+/**
+ * Signal every process in a process group started with `detached: true`. Processes owned by
+ * the sandbox user can only be signalled as that user.
+ */
+export function killProcessGroup(pgid: number, signal: NodeJS.Signals): void {
+  const user = process.env.SANDBOX_USER;
+  if (!user) {
+    process.kill(-pgid, signal);
+    return;
+  }
+
+  const result = spawnSync('sudo', ['-n', '-u', user, 'kill', '-s', signal.replace(/^SIG/, ''), '--', `-${pgid}`], {
+    stdio: 'ignore',
+    timeout: 10000
+  });
+  if (result.status !== 0) {
+    logger.warn('Failed to signal sandboxed processes', { pgid, signal, status: result.status });
+  }
+}
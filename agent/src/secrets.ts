@@ -0,0 +1,45 @@
+/**
+ * Secrets
+ * Credentials the entrypoint claimed from the orchestrator live as files in a tmpfs
+ * directory rather than in the environment, so they aren't inherited by Claude or the
+ * tools it runs. The git credential helper reads the GitHub token from the same place.
+ */
+
+import { readFileSync, promises as fs } from 'fs';
+import path from 'path';
+import { addSecret } from './redact';
+
+// Environment variables never passed on to Claude or git
+const SECRET_ENV_VARS = ['ANTHROPIC_API_KEY', 'GITHUB_TOKEN', 'ORCHESTRATOR_TOKEN', 'SECRETS_CLAIM_TOKEN'];
+
+/**
+ * Read a secret file ('' if missing), remembering the value for redaction
+ */
+export function readSecret(dir: string, name: string): string {
+  try {
+    const value = readFileSync(path.join(dir, name), 'utf-8').trim();
+    addSecret(value);
+    return value;
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Replace a secret file, readable only by the agent user
+ */
+export async function writeSecret(dir: string, name: string, value: string): Promise<void> {
+  addSecret(value);
+  await fs.writeFile(path.join(dir, name), value, { mode: 0o600 });
+}
+
+/**
+ * The agent's environment without any credentials, for child processes
+ */
+export function scrubbedEnv(): Record<string, string | undefined> {
+  const env = { ...process.env };
+  for (const name of SECRET_ENV_VARS) {
+    delete env[name];
+  }
+  return env;
+}
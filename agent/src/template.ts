@@ -0,0 +1,31 @@
+/**
+ * Templates
+ * Renders prompt and PR templates with Handlebars: {{variable}}, {{#if}}...{{else}}...{{/if}},
+ * {{#each list}} and {{> partial}}. Values are inserted as written, without HTML escaping,
+ * and are never read as template syntax; \{{ writes literal braces.
+ */
+
+import Handlebars from 'handlebars';
+
+export type TemplateValue = string | number | boolean | undefined | TemplateValue[] | { [key: string]: TemplateValue };
+export type TemplateVariables = Record<string, TemplateValue>;
+
+// Our own instance, so partials don't leak into other users of Handlebars
+const handlebars = Handlebars.create();
+
+/**
+ * Make shared snippets available to every template as {{> name}}
+ */
+export function registerPartials(partials: Record<string, string>): void {
+  for (const [name, partial] of Object.entries(partials)) {
+    handlebars.registerPartial(name, partial);
+  }
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  try {
+    return handlebars.compile(template, { noEscape: true })(variables);
+  } catch (error) {
+    throw new Error(`Failed to render template: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Transcript
+ * Keeps the full stream-json output of every Claude Code execution in a run in one
+ * JSONL file, outside the repository, for upload to the orchestrator as an artifact
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { redact } from './redact';
+import { logger } from './logger';
+
+export class Transcript {
+  readonly path: string;
+  private executions: number = 0;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, name: string = 'transcript.jsonl') {
+    this.path = path.join(dir, name);
+  }
+
+  /**
+   * Mark the start of a Claude execution, so executions can be told apart
+   */
+  begin(label: string): void {
+    this.executions++;
+    this.write(JSON.stringify({
+      type: 'autogen_execution',
+      execution: this.executions,
+      label,
+      started_at: new Date().toISOString()
+    }));
+  }
+
+  /**
+   * Add one line of Claude output
+   */
+  append(line: string): void {
+    this.write(redact(line));
+  }
+
+  /**
+   * Wait for everything appended so far to reach the file
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  /**
+   * The transcript so far, or null if nothing was written
+   */
+  async read(): Promise<string | null> {
+    await this.flush();
+    try {
+      return await fs.readFile(this.path, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Writes are chained so lines land in order
+  private write(line: string): void {
+    this.pending = this.pending
+      .then(() => fs.mkdir(path.dirname(this.path), { recursive: true }))
+      .then(() => fs.appendFile(this.path, line + '\n', 'utf-8'))
+      .catch(error => {
+        logger.warn('Failed to write transcript', { error: String(error) });
+      });
+  }
+}
@@ -9,14 +9,87 @@ export interface AgentContext {
   issueTitle: string;
   issueBody: string;
   branchName: string;
-  claudeApiKey: string;
+  secretsDir: string;        // tmpfs directory holding the credentials claimed from the orchestrator
   githubToken: string;
+  githubTokenExpiresAt?: string;  // ISO time the token expires (GitHub App tokens); refreshed via the orchestrator
   orchestratorUrl: string;
+  orchestratorToken: string;  // Per-run token authenticating calls to the orchestrator
   containerId: string;
+  agentLogin?: string;       // The GitHub login the agent acts as (resolved via the API if unset)
+  ignoreUsers: string[];     // Never act on comments from these users
+  trustedBots: string[];     // Bot accounts whose comments are acted on
   promptTemplate?: string;  // Custom prompt template from config
   reviewFeedbackTemplate?: string;  // Custom review feedback prompt template
+  promptPartials: Record<string, string>;  // Shared {{> name}} snippets for templates (PROMPT_PARTIALS)
+  triggerAuthor?: string;    // Who asked for this run (the issue author if unset)
+  budget: RunBudget;         // Limits on this run (AGENT_BUDGET)
+  transcriptDir: string;     // Where full Claude Code transcripts are written (outside the repo)
+  prTemplates: PullRequestTemplates;  // Custom PR title, body and commit message templates (PR_TEMPLATES)
+  prWorkflow: PRWorkflow;    // Draft-first PRs and who is asked to review (PR_WORKFLOW)
+  validation: ValidationSettings;  // Checks run before the PR is handed to reviewers (VALIDATION)
+  baseBranch?: string;       // Branch to work from and open the PR against (the repo's default if unset)
+  allowedPaths: string[];    // Globs the agent may change; empty for anywhere (ALLOWED_PATHS)
 }
 
+/**
+ * How the work is validated before review, as configured in the orchestrator
+ */
+export interface ValidationSettings {
+  commands?: string[];       // The repo's configured commands; detected from the repo if unset
+  timeoutMinutes?: number;   // Per command
+  maxFixAttempts?: number;   // Times Claude is asked to fix failures before giving up
+}
+
+/**
+ * How the PR is opened and handed over to reviewers
+ */
+export interface PRWorkflow {
+  draft?: boolean;           // Open a draft PR at the first commit; mark it ready once validated
+  reviewers?: string[];      // Requested when the PR becomes ready for review
+  teamReviewers?: string[];
+  labels?: string[];
+  assignees?: string[];
+}
+
+/**
+ * Templates for the PR title, PR body and commit message; defaults apply for unset ones
+ */
+export interface PullRequestTemplates {
+  title?: string;
+  body?: string;
+  commitMessage?: string;
+}
+
+/**
+ * Limits on one run, as configured in the orchestrator
+ */
+export interface RunBudget {
+  maxRuntimeMinutes?: number;
+  maxDevelopMinutes?: number;
+  maxIterateMinutes?: number;
+  maxIterations?: number;
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  partial?: boolean;  // Added up from assistant messages because the execution never finished; no cost
+}
+
+/**
+ * What Claude Code did, parsed from its stream-json output
+ */
+export type ClaudeEvent =
+  | { type: 'text'; text: string }                          // Assistant message text
+  | { type: 'tool_call'; tool: string; summary: string; id?: string }  // Any tool use, e.g. Bash with its command
+  | { type: 'tool_result'; id: string; isError: boolean }    // Outcome of a tool call
+  | { type: 'file_edit'; tool: string; path: string }        // Edit, Write, MultiEdit, NotebookEdit
+  | { type: 'usage'; messageId?: string; usage: ClaudeUsage } // Tokens of one assistant message so far
+  | { type: 'result'; success: boolean; result: string; usage?: ClaudeUsage; turns?: number; durationMs?: number };
+
 export interface AgentStatus {
   status: string;
   message: string;
@@ -28,6 +101,14 @@ export interface ClaudeResult {
   output: string;
   error?: string;
   changes?: string[];
+  usage?: ClaudeUsage;  // Reported by Claude Code for the execution
+  timedOut?: boolean;
+  tests?: TestRun[];    // Test commands Claude ran
+}
+
+export interface TestRun {
+  command: string;
+  passed: boolean;
 }
 
 export interface PRReview {
@@ -38,15 +119,82 @@ export interface PRReview {
   submittedAt: Date;
 }
 
+export interface ReviewThreadComment {
+  id: number;
+  author: string;
+  authorType?: string;  // GraphQL __typename of the author, e.g. "User" or "Bot"
+  body: string;
+  diffHunk: string;
+  createdAt: string;
+}
+
+/**
+ * The issue as GitHub shows it: who opened it, its labels, the discussion and what links to it
+ */
+export interface IssueDetails {
+  author: string;
+  labels: string[];
+  comments: Array<{ author: string; authorType?: string; body: string; createdAt: string }>;
+  linkedIssues: Array<{ repo: string; number: number; title: string; state: string; url: string; isPullRequest: boolean }>;
+  languages: string[];       // The repository's languages, most used first
+}
+
+export interface ReviewThread {
+  id: string;             // GraphQL node ID (used to resolve the thread)
+  isResolved: boolean;
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  comments: ReviewThreadComment[];
+}
+
 export interface GitCommitResult {
   success: boolean;
   hash?: string;
   error?: string;
 }
 
+/**
+ * Whether the work is fit to hand to reviewers, and why not
+ */
+export interface ValidationResult {
+  passed: boolean;
+  summary: string;  // Markdown, for PR comments
+  checks?: ValidationCheck[];  // The commands run, if any
+  fixAttempts?: number;        // Times Claude was asked to fix failures
+}
+
+/**
+ * The outcome of one validation command
+ */
+export interface ValidationCheck {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;  // The end of the combined stdout and stderr, redacted
+}
+
 export interface PRCreationResult {
   success: boolean;
   prNumber?: number;
   prUrl?: string;
   error?: string;
 }
+
+/**
+ * Commands pushed by the orchestrator over the command channel
+ */
+export type AgentCommand =
+  | { type: 'feedback'; reviewId?: number; reviewer: string; body: string }
+  | { type: 'abort'; reason: string }
+  | { type: 'approved'; reviewer: string }
+  | { type: 'rebase'; base?: string }
+  | { type: 'extend-timeout'; minutes: number };
+
+export interface QueuedCommand {
+  id: number;
+  issuedAt: string;
+  command: AgentCommand;
+}
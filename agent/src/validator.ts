@@ -0,0 +1,234 @@
+/**
+ * Validator
+ * Runs the repository's checks (tests, lint, typecheck) on the agent's work before it
+ * is handed to reviewers. The commands are configured (in the orchestrator config or
+ * the repo's .autogas.yml) or detected from the repo's build files.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { redact } from './redact';
+import { scrubbedEnv } from './secrets';
+import { killProcessGroup, sandboxed } from './sandbox';
+import { TestRun, ValidationCheck, ValidationResult, ValidationSettings } from './types';
+
+const DEFAULT_TIMEOUT_MINUTES = 10;
+
+// Output kept per command; failures are usually explained at the end
+const MAX_OUTPUT_LENGTH = 8000;
+
+// package.json scripts run as checks, in this order
+const PACKAGE_SCRIPTS = ['typecheck', 'type-check', 'lint', 'test'];
+
+// What `npm init` puts in the test script
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+
+export class Validator {
+  private workingDir: string;
+  private settings: ValidationSettings;
+
+  constructor(workingDir: string, settings: ValidationSettings = {}) {
+    this.workingDir = workingDir;
+    this.settings = settings;
+  }
+
+  get maxFixAttempts(): number {
+    return this.settings.maxFixAttempts ?? 2;
+  }
+
+  /**
+   * The commands to run: the configured ones, else whatever the repo's build files suggest
+   */
+  async resolveCommands(): Promise<string[]> {
+    if (this.settings.commands && this.settings.commands.length > 0) {
+      return this.settings.commands;
+    }
+    return this.detectCommands();
+  }
+
+  /**
+   * Run every command, each within the per-command timeout and the time left overall
+   */
+  async run(commands: string[], remainingMs: number = Infinity): Promise<ValidationResult> {
+    const deadline = Date.now() + remainingMs;
+    const timeoutMs = (this.settings.timeoutMinutes || DEFAULT_TIMEOUT_MINUTES) * 60 * 1000;
+    const checks: ValidationCheck[] = [];
+
+    for (const command of commands) {
+      const check = await this.runCommand(command, Math.max(0, Math.min(timeoutMs, deadline - Date.now())));
+      logger.info(`Validation ${check.passed ? 'passed' : 'failed'}: ${command}`, {
+        exitCode: check.exitCode,
+        timedOut: check.timedOut,
+        durationMs: check.durationMs
+      });
+      checks.push(check);
+    }
+
+    return Validator.toResult(checks);
+  }
+
+  /**
+   * The result when the repo has no checks to run: whether every test command Claude
+   * ran passed the last time it ran
+   */
+  static fromTests(tests: TestRun[]): ValidationResult {
+    const lastRuns = new Map(tests.map(test => [test.command, test.passed]));
+    const failing = Array.from(lastRuns.entries()).filter(([, passed]) => !passed).map(([command]) => command);
+
+    if (failing.length > 0) {
+      return {
+        passed: false,
+        summary: `Tests failing when Claude finished:\n${failing.map(command => `- \`${command}\``).join('\n')}`
+      };
+    }
+    return { passed: true, summary: lastRuns.size > 0 ? 'All tests Claude ran passed.' : 'No tests were run.' };
+  }
+
+  /**
+   * The failed checks with their output, for Claude to fix
+   */
+  static describeFailures(result: ValidationResult): string {
+    return (result.checks || [])
+      .filter(check => !check.passed)
+      .map(check => `### \`${check.command}\` ${Validator.describeOutcome(check)}\n\n\`\`\`\n${check.output}\n\`\`\``)
+      .join('\n\n');
+  }
+
+  /**
+   * How a check ended, e.g. "exited with code 1"
+   */
+  static describeOutcome(check: ValidationCheck): string {
+    if (check.passed) {
+      return 'passed';
+    }
+    if (check.timedOut) {
+      return `timed out after ${Math.round(check.durationMs / 1000)}s`;
+    }
+    return check.exitCode === null ? 'could not be run' : `exited with code ${check.exitCode}`;
+  }
+
+  private static toResult(checks: ValidationCheck[]): ValidationResult {
+    const failed = checks.filter(check => !check.passed);
+    const summary = failed.length === 0
+      ? `All ${checks.length} validation checks passed.`
+      : `${failed.length} of ${checks.length} validation checks failed:\n` +
+        failed.map(check => `- \`${check.command}\` ${Validator.describeOutcome(check)}`).join('\n');
+
+    return { passed: failed.length === 0, summary, checks };
+  }
+
+  private runCommand(command: string, timeoutMs: number): Promise<ValidationCheck> {
+    const startedAt = Date.now();
+
+    return new Promise((resolve) => {
+      let output = '';
+      let timedOut = false;
+
+      // Own process group, so a timeout also stops the processes the command started.
+      // The repo's scripts run as the sandbox user without credentials, like the tools Claude runs.
+      const sandbox = sandboxed('sh', ['-c', command]);
+      const child = spawn(sandbox.command, sandbox.args, {
+        cwd: this.workingDir,
+        env: { ...scrubbedEnv(), CI: 'true' },
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true
+      });
+
+      const append = (data: Buffer) => {
+        output = (output + data.toString()).slice(-MAX_OUTPUT_LENGTH);
+      };
+      child.stdout?.on('data', append);
+      child.stderr?.on('data', append);
+
+      const timeout = setTimeout(() => {
+        timedOut = true;
+        try {
+          killProcessGroup(child.pid!, 'SIGKILL');
+        } catch (error) {
+          child.kill('SIGKILL');
+        }
+      }, timeoutMs);
+
+      const finish = (exitCode: number | null, error?: string) => {
+        clearTimeout(timeout);
+        resolve({
+          command,
+          passed: exitCode === 0 && !timedOut,
+          exitCode,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+          output: redact(error ? `${output}\n${error}` : output).trim()
+        });
+      };
+
+      child.on('close', (code) => finish(code));
+      child.on('error', (error) => finish(null, `Failed to run: ${error.message}`));
+    });
+  }
+
+  /**
+   * Guess the checks from the repo's build files
+   */
+  private async detectCommands(): Promise<string[]> {
+    const commands = [
+      ...await this.detectNodeCommands(),
+      ...(await this.exists('Cargo.toml') ? ['cargo test'] : []),
+      ...(await this.exists('go.mod') ? ['go vet ./...', 'go test ./...'] : []),
+      ...(await this.exists('pytest.ini') || await this.exists('pyproject.toml') || await this.exists('setup.py')
+        ? ['python3 -m pytest']
+        : [])
+    ];
+
+    if (commands.length === 0 && /^test:/m.test(await this.read('Makefile'))) {
+      commands.push('make test');
+    }
+
+    logger.info('Detected validation commands', { commands });
+    return commands;
+  }
+
+  private async detectNodeCommands(): Promise<string[]> {
+    let scripts: Record<string, string>;
+    try {
+      scripts = JSON.parse(await this.read('package.json')).scripts || {};
+    } catch (error) {
+      return [];
+    }
+
+    const runner = await this.exists('pnpm-lock.yaml') ? 'pnpm' : await this.exists('yarn.lock') ? 'yarn' : 'npm';
+    const commands = PACKAGE_SCRIPTS
+      .filter(name => scripts[name] && !(name === 'test' && PLACEHOLDER_TEST_SCRIPT.test(scripts[name])))
+      .filter(name => name !== 'type-check' || !scripts.typecheck)
+      .map(name => `${runner} run ${name}`);
+
+    // The checks need the dependencies, which Claude may not have installed
+    if (commands.length > 0 && !await this.exists('node_modules')) {
+      const install = {
+        pnpm: 'pnpm install --frozen-lockfile',
+        yarn: 'yarn install --frozen-lockfile',
+        npm: await this.exists('package-lock.json') ? 'npm ci' : 'npm install'
+      };
+      commands.unshift(install[runner]);
+    }
+    return commands;
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.workingDir, file));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async read(file: string): Promise<string> {
+    try {
+      return await fs.readFile(path.join(this.workingDir, file), 'utf-8');
+    } catch (error) {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Agent Authentication
+ * Issues and verifies the per-run tokens agent containers use to call the orchestrator API,
+ * and the claim tokens they use once to fetch their secrets (including the run token)
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+
+export class AgentAuth {
+  private secret: string;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('An agent token secret is required');
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Issue a token for a container run. Container names are unique per run
+   * (they include the start timestamp), so each run gets its own token.
+   */
+  issueToken(containerName: string): string {
+    return this.sign(`agent-run:${containerName}`);
+  }
+
+  /**
+   * Issue the token a container claims its secrets with. It is the only credential in the
+   * container's environment, and is worthless once the secrets have been claimed.
+   */
+  issueClaimToken(containerName: string): string {
+    return this.sign(`agent-claim:${containerName}`);
+  }
+
+  /**
+   * Verify a token presented for a container
+   */
+  verifyToken(containerName: string, token: string): boolean {
+    return AgentAuth.matches(containerName && this.issueToken(containerName), token);
+  }
+
+  /**
+   * Verify a claim token presented for a container
+   */
+  verifyClaimToken(containerName: string, token: string): boolean {
+    return AgentAuth.matches(containerName && this.issueClaimToken(containerName), token);
+  }
+
+  private sign(value: string): string {
+    return crypto.createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+
+  /**
+   * Compare a presented token with the expected one in constant time
+   */
+  static matches(expectedToken: string | undefined, token: string | undefined): boolean {
+    if (!expectedToken || !token) {
+      return false;
+    }
+
+    const expected = Buffer.from(expectedToken);
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Extract the bearer token from a request
+   */
+  static getBearerToken(req: Request): string | undefined {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+      return undefined;
+    }
+    return header.slice('Bearer '.length).trim();
+  }
+}
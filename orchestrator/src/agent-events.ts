@@ -0,0 +1,57 @@
+/**
+ * Agent Events
+ * Validates the Claude Code events agents forward while they run, and describes them for logs
+ */
+
+import { AgentEvent } from './types';
+
+/**
+ * Check one event from an agent's payload. Returns null for anything malformed.
+ */
+export function parseAgentEvent(value: any): AgentEvent | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const at = typeof value.at === 'string' ? value.at : new Date().toISOString();
+
+  switch (value.type) {
+    case 'text':
+      return typeof value.text === 'string' ? { type: 'text', text: value.text, at } : null;
+    case 'tool_call':
+      return typeof value.tool === 'string'
+        ? { type: 'tool_call', tool: value.tool, summary: String(value.summary ?? ''), at }
+        : null;
+    case 'file_edit':
+      return typeof value.tool === 'string' && typeof value.path === 'string'
+        ? { type: 'file_edit', tool: value.tool, path: value.path, at }
+        : null;
+    case 'result':
+      return {
+        type: 'result',
+        success: value.success === true,
+        result: String(value.result ?? ''),
+        turns: typeof value.turns === 'number' ? value.turns : undefined,
+        durationMs: typeof value.durationMs === 'number' ? value.durationMs : undefined,
+        at
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * One line describing an event
+ */
+export function describeAgentEvent(event: AgentEvent): string {
+  switch (event.type) {
+    case 'text':
+      return event.text.split('\n')[0].slice(0, 200);
+    case 'tool_call':
+      return event.summary ? `${event.tool}: ${event.summary}` : event.tool;
+    case 'file_edit':
+      return `${event.tool} ${event.path}`;
+    case 'result':
+      return `Claude ${event.success ? 'finished' : 'failed'}` + (event.turns ? ` after ${event.turns} turns` : '');
+  }
+}
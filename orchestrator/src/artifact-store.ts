@@ -0,0 +1,48 @@
+/**
+ * Artifact Store
+ * Keeps files uploaded by agent containers (Claude Code transcripts) on disk,
+ * one directory per issue, so they outlive the container
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ActiveIssue } from './types';
+import { logger } from './logger';
+
+export class ArtifactStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Save a run's Claude Code transcript, replacing any earlier upload from the same run.
+   * Returns the file path.
+   */
+  async saveTranscript(issue: ActiveIssue, content: string): Promise<string> {
+    const file = path.join(this.getIssueDir(issue), `${safeName(issue.containerName)}.transcript.jsonl`);
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to save transcript for ${issue.containerName}: ${error}`);
+    }
+
+    logger.debug(`Saved transcript ${file} (${content.length} bytes)`);
+    return file;
+  }
+
+  /**
+   * Directory holding an issue's artifacts: <dir>/<owner>/<repo>/<issue number>
+   */
+  getIssueDir(issue: ActiveIssue): string {
+    return path.join(this.dir, safeName(issue.repoOwner), safeName(issue.repoName), String(issue.issueNumber));
+  }
+}
+
+// Path segments come from GitHub names and container names; never let them escape the directory
+function safeName(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '_');
+}
@@ -0,0 +1,89 @@
+/**
+ * Authorizer
+ * Decides who may give the agent commands on a repository, per the repo's `access` config.
+ * Results are cached briefly so a burst of comments doesn't repeat the same API calls.
+ */
+
+import { GitHubClient } from './github-client';
+import { RepoConfig, RepoPermission, REPO_PERMISSIONS } from './types';
+import { logger } from './logger';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_PERMISSION: RepoPermission = 'write';
+
+export interface AuthorizationResult {
+  allowed: boolean;
+  reason: string;
+}
+
+export class Authorizer {
+  private githubClient: GitHubClient;
+  private cache: Map<string, { result: AuthorizationResult; expiresAt: number }> = new Map();
+
+  constructor(githubClient: GitHubClient) {
+    this.githubClient = githubClient;
+  }
+
+  /**
+   * Check whether a user may give commands on a repository.
+   * Allowlisted users and team members always may; everyone else needs the
+   * minimum repository permission and, if `orgs` is set, membership in one of them.
+   */
+  async authorize(username: string, repo: RepoConfig): Promise<AuthorizationResult> {
+    const key = `${repo.owner}/${repo.name}:${username}`.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    let result: AuthorizationResult;
+    try {
+      result = await this.check(username, repo);
+    } catch (error) {
+      // Fail closed, and don't cache: the next attempt may succeed
+      logger.error(`Authorization check failed for ${username} on ${repo.owner}/${repo.name}`, { error });
+      return { allowed: false, reason: 'authorization check failed' };
+    }
+
+    this.cache.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    return result;
+  }
+
+  private async check(username: string, repo: RepoConfig): Promise<AuthorizationResult> {
+    const access = repo.access || {};
+    const login = username.toLowerCase();
+
+    if ((access.users || []).some(user => user.toLowerCase() === login)) {
+      return { allowed: true, reason: 'user allowlist' };
+    }
+
+    for (const team of access.teams || []) {
+      const [org, slug] = team.split('/');
+      if (await this.githubClient.isTeamMember(org, slug, username)) {
+        return { allowed: true, reason: `member of ${team}` };
+      }
+    }
+
+    const required = access.permission || DEFAULT_PERMISSION;
+    const permission = await this.githubClient.getUserPermission(repo.owner, repo.name, username);
+    if (!this.meets(permission, required)) {
+      return { allowed: false, reason: `has ${permission} permission, needs ${required}` };
+    }
+
+    if (access.orgs && access.orgs.length > 0) {
+      for (const org of access.orgs) {
+        if (await this.githubClient.isOrgMember(org, username)) {
+          return { allowed: true, reason: `${permission} permission, member of ${org}` };
+        }
+      }
+      return { allowed: false, reason: `not a member of ${access.orgs.join(', ')}` };
+    }
+
+    return { allowed: true, reason: `${permission} permission` };
+  }
+
+  private meets(permission: RepoPermission | 'none', required: RepoPermission): boolean {
+    return permission !== 'none' &&
+      REPO_PERMISSIONS.indexOf(permission) >= REPO_PERMISSIONS.indexOf(required);
+  }
+}
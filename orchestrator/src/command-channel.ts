@@ -0,0 +1,92 @@
+/**
+ * Command Channel
+ * Orchestrator-to-agent messages, delivered to agent containers by long-polling.
+ * Commands stay pending until the agent acknowledges them (by polling with a later cursor),
+ * so a dropped response doesn't lose a command.
+ */
+
+import { AgentCommand, QueuedCommand } from './types';
+import { logger } from './logger';
+
+interface Mailbox {
+  nextId: number;
+  pending: QueuedCommand[];
+  waiters: Array<() => void>;
+}
+
+export class CommandChannel {
+  private mailboxes: Map<string, Mailbox> = new Map();
+
+  /**
+   * Queue a command for a container and wake any waiting long-poll
+   */
+  send(containerName: string, command: AgentCommand): QueuedCommand {
+    const mailbox = this.getMailbox(containerName);
+    const queued: QueuedCommand = {
+      id: mailbox.nextId++,
+      issuedAt: new Date().toISOString(),
+      command
+    };
+
+    mailbox.pending.push(queued);
+    logger.info(`Queued ${command.type} command for ${containerName}`, { id: queued.id });
+
+    const waiters = mailbox.waiters.splice(0);
+    waiters.forEach(wake => wake());
+
+    return queued;
+  }
+
+  /**
+   * Wait for commands newer than `after`. Resolves immediately if any are pending,
+   * otherwise when one arrives or the timeout elapses (with an empty list).
+   * Commands up to and including `after` are treated as acknowledged and dropped.
+   */
+  async receive(containerName: string, after: number, timeoutMs: number, signal?: AbortSignal): Promise<QueuedCommand[]> {
+    const mailbox = this.getMailbox(containerName);
+    mailbox.pending = mailbox.pending.filter(c => c.id > after);
+
+    if (mailbox.pending.length > 0) {
+      return [...mailbox.pending];
+    }
+
+    await new Promise<void>(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      };
+      const cancel = () => {
+        mailbox.waiters = mailbox.waiters.filter(w => w !== wake);
+        wake();
+      };
+      const timer = setTimeout(cancel, timeoutMs);
+
+      mailbox.waiters.push(wake);
+      signal?.addEventListener('abort', cancel);
+    });
+
+    return mailbox.pending.filter(c => c.id > after);
+  }
+
+  /**
+   * Drop a container's mailbox (e.g. when its container is removed)
+   */
+  close(containerName: string): void {
+    const mailbox = this.mailboxes.get(containerName);
+    if (mailbox) {
+      mailbox.waiters.splice(0).forEach(wake => wake());
+      this.mailboxes.delete(containerName);
+    }
+  }
+
+  private getMailbox(containerName: string): Mailbox {
+    let mailbox = this.mailboxes.get(containerName);
+    if (!mailbox) {
+      // Start from the current time so IDs keep increasing across orchestrator restarts
+      mailbox = { nextId: Date.now(), pending: [], waiters: [] };
+      this.mailboxes.set(containerName, mailbox);
+    }
+    return mailbox;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Comment Commands
+ * Parses `@bot <command> [args]` comments on issues and PRs into structured commands.
+ * The poller and the webhook server both dispatch through this parser.
+ */
+
+import { CommentCommandName, ParsedCommand, RepoConfig } from './types';
+
+export type CommandTarget = 'issue' | 'pr';
+
+export interface CommandSpec {
+  name: CommentCommandName;
+  usage: string;
+  description: string;
+  targets: CommandTarget[];
+}
+
+export const COMMANDS: CommandSpec[] = [
+  { name: 'take', usage: 'take this', description: 'Start an agent on this issue', targets: ['issue'] },
+  { name: 'use', usage: 'use template=<name>', description: 'Start an agent with a named prompt template', targets: ['issue'] },
+  { name: 'stop', usage: 'stop', description: 'Stop the running agent (or remove the issue from the queue)', targets: ['issue', 'pr'] },
+  { name: 'retry', usage: 'retry', description: 'Start a fresh agent after a failed or stopped run', targets: ['issue'] },
+  { name: 'status', usage: 'status', description: 'Show what the agent is doing', targets: ['issue', 'pr'] },
+  { name: 'rebase', usage: 'rebase [base=<branch>]', description: 'Rebase the agent\'s branch and force-push', targets: ['issue', 'pr'] },
+  { name: 'iterate', usage: 'iterate [instructions]', description: 'Have the agent address open review comments now', targets: ['pr'] },
+  { name: 'help', usage: 'help', description: 'Show this list', targets: ['issue', 'pr'] }
+];
+
+export class CommandParser {
+  /**
+   * Find the first command in a comment body. The repo's full trigger phrase
+   * (e.g. "@bot take this") anywhere in a line always counts as `take`; otherwise
+   * a line must start with the trigger's mention (e.g. "@bot"). Quoted lines, inline
+   * code and fenced code blocks are ignored, so quoting or documenting a command doesn't run it.
+   */
+  parse(body: string, repo: RepoConfig): ParsedCommand | null {
+    const trigger = repo.triggerComment.trim().toLowerCase();
+    const mention = CommandParser.getMention(repo);
+    const lines = body.split(/\r?\n/);
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].replace(/`[^`\n]*`/g, '').trim();
+
+      if (lines[i].trim().startsWith('```')) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence || line.startsWith('>')) {
+        continue;
+      }
+
+      const lower = line.toLowerCase();
+
+      const triggerIndex = lower.indexOf(trigger);
+      if (triggerIndex !== -1) {
+        const { args } = this.parseArguments(line.slice(triggerIndex + trigger.length));
+        return { name: 'take', verb: 'take', args, text: '' };
+      }
+
+      if (mention && this.startsWithMention(lower, mention)) {
+        const [verb = '', ...rest] = line.slice(mention.length).trim().split(/\s+/);
+        const { args, words } = this.parseArguments(rest.join(' '));
+        const following = lines.slice(i + 1).join('\n').trim();
+        const normalized = verb.toLowerCase();
+
+        return {
+          name: this.resolveName(normalized || 'help'),
+          verb: normalized,
+          args,
+          text: [words.join(' '), following].filter(Boolean).join('\n')
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The mention that addresses the bot, taken from the repo's trigger phrase
+   * ("@bot take this" -> "@bot"). Undefined if the trigger isn't a mention.
+   */
+  static getMention(repo: RepoConfig): string | undefined {
+    const first = repo.triggerComment.trim().split(/\s+/)[0];
+    return first && first.startsWith('@') ? first.toLowerCase() : undefined;
+  }
+
+  /**
+   * Look up a command's spec
+   */
+  static getSpec(name: string): CommandSpec | undefined {
+    return COMMANDS.find(c => c.name === name);
+  }
+
+  /**
+   * Build the help reply for a target, optionally prefixed with an error line
+   */
+  static help(repo: RepoConfig, target: CommandTarget, error?: string): string {
+    const mention = CommandParser.getMention(repo) || repo.triggerComment;
+    const available = COMMANDS.filter(c => c.targets.includes(target));
+    const rows = available.map(c => `| \`${mention} ${c.usage}\` | ${c.description} |`);
+
+    return (error ? `⚠️ ${error}\n\n` : '') +
+      `**Commands available on this ${target === 'pr' ? 'pull request' : 'issue'}:**\n\n` +
+      '| Command | Description |\n' +
+      '|---------|-------------|\n' +
+      rows.join('\n');
+  }
+
+  private resolveName(verb: string): CommentCommandName | 'unknown' {
+    return CommandParser.getSpec(verb)?.name || 'unknown';
+  }
+
+  private startsWithMention(line: string, mention: string): boolean {
+    return line.startsWith(mention) &&
+      (line.length === mention.length || /\s/.test(line[mention.length]));
+  }
+
+  /**
+   * Split arguments into key=value pairs and plain words
+   */
+  private parseArguments(input: string): { args: Record<string, string>; words: string[] } {
+    const args: Record<string, string> = {};
+    const words: string[] = [];
+
+    for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+      const match = token.match(/^([a-z][\w-]*)=(.+)$/i);
+      if (match) {
+        args[match[1].toLowerCase()] = match[2];
+      } else {
+        words.push(token);
+      }
+    }
+
+    return { args, words };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Configuration Schema
+ * Declares the shape of config.yaml. Keys may be written in snake_case (as in the shipped
+ * config) or camelCase; both map to the camelCase fields of OrchestratorConfig. Names
+ * chosen by the user (env vars, profiles, owners, prompt templates) are kept as written.
+ */
+
+import { z } from 'zod';
+import { REPO_PERMISSIONS, RepoPermission } from './types';
+
+/**
+ * An object whose fields may also be given in snake_case. Unknown fields are errors,
+ * unless `catchall` says what they may hold.
+ */
+function object<T extends z.ZodRawShape>(shape: T) {
+  return z.preprocess((value, ctx) => camelizeKeys(value, shape, ctx), z.object(shape).strict());
+}
+
+function objectWithCatchall<T extends z.ZodRawShape, C extends z.ZodTypeAny>(shape: T, catchall: C) {
+  return z.preprocess((value, ctx) => camelizeKeys(value, shape, ctx), z.object(shape).catchall(catchall));
+}
+
+function camelizeKeys(value: unknown, shape: z.ZodRawShape, ctx: z.RefinementCtx): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const camel = toCamelCase(key);
+    const field = camel in shape ? camel : key;
+    if (field in result) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `is set as both ${toSnakeCase(field)} and ${field}` });
+    }
+    result[field] = item;
+  }
+  return result;
+}
+
+export function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase());
+}
+
+export function toSnakeCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, (_, before, char) => `${before}_${char.toLowerCase()}`);
+}
+
+/**
+ * A number, also accepted as a numeric string (e.g. substituted from an environment variable)
+ */
+function number<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    value => typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value,
+    schema
+  );
+}
+
+const text = z.string().trim().min(1, 'must not be empty');
+const names = z.array(text);
+const positive = number(z.number().positive('must be a positive number'));
+const positiveInteger = number(z.number().int('must be a positive integer').positive('must be a positive integer'));
+const commands = z.array(text, { invalid_type_error: 'must be a list of commands' });
+
+const budgetSchema = object({
+  maxRuntimeMinutes: positive.optional(),
+  maxDevelopMinutes: positive.optional(),
+  maxIterateMinutes: positive.optional(),
+  maxIterations: positive.optional(),
+  maxTokens: positive.optional(),
+  maxCostUsd: positive.optional()
+});
+
+const pullRequestTemplatesSchema = object({
+  title: text.optional(),
+  body: text.optional(),
+  commitMessage: text.optional()
+});
+
+const prWorkflowSchema = object({
+  draft: z.boolean({ invalid_type_error: 'must be true or false' }).optional(),
+  reviewers: names.optional(),
+  teamReviewers: names.optional(),
+  labels: names.optional(),
+  assignees: names.optional()
+});
+
+const validationSchema = object({
+  commands: commands.optional(),
+  timeoutMinutes: positive.optional(),
+  maxFixAttempts: number(z.number().int().nonnegative('must be a non-negative integer')).optional()
+});
+
+const promptsSchema = objectWithCatchall({
+  default: text.optional(),
+  reviewFeedback: text.optional()
+}, text);
+
+const accessSchema = object({
+  users: names.optional(),
+  teams: z.array(z.string().regex(/^[^/\s]+\/[^/\s]+$/, 'must look like "org/team-slug"')).optional(),
+  permission: z.enum(REPO_PERMISSIONS as [RepoPermission, ...RepoPermission[]]).optional(),
+  orgs: names.optional()
+});
+
+const memoryLimit = z.union([z.string(), z.number()])
+  .transform(String)
+  .refine(value => /^\d+(\.\d+)?[bkmg]?$/i.test(value), 'must look like "512m" or "4g"');
+
+const cpuLimit = z.union([z.string(), z.number()])
+  .transform(String)
+  .refine(value => parseFloat(value) > 0, 'must be a positive number');
+
+const env = z.record(z.string({ invalid_type_error: 'must be a string' }));
+
+const profileSchema = object({
+  image: text.optional(),
+  memoryLimit: memoryLimit.optional(),
+  cpuLimit: cpuLimit.optional(),
+  network: text.optional(),
+  env: env.optional(),
+  volumes: z.array(
+    z.string().regex(/^[^:\s]+:\/[^:\s]*(:(ro|rw))?$/, 'must look like "source:/target" or "source:/target:ro"')
+  ).optional()
+});
+
+const repoSchema = object({
+  owner: text,
+  name: text,
+  triggerComment: text,
+  enabled: z.boolean().default(true),
+  promptTemplate: text.optional(),
+  priority: number(z.number().int('must be an integer')).optional(),
+  access: accessSchema.optional(),
+  ignoreUsers: names.optional(),
+  trustedBots: names.optional(),
+  profile: text.optional(),
+  maxConcurrent: positiveInteger.optional(),
+  budget: budgetSchema.optional(),
+  pullRequests: pullRequestTemplatesSchema.optional(),
+  prWorkflow: prWorkflowSchema.optional(),
+  validate: commands.optional(),
+  validation: validationSchema.optional(),
+  allowedPaths: names.optional(),
+  baseBranch: text.optional()
+});
+
+export const configSchema = object({
+  github: object({
+    token: text.optional(),
+    webhookSecret: text,
+    app: object({
+      id: z.union([text, z.number()]),
+      key: text
+    }).optional()
+  }),
+  repos: z.array(repoSchema).min(1, 'must include at least one repository'),
+  claude: object({
+    apiKey: text,
+    maxTokens: positiveInteger.optional(),
+    prompts: promptsSchema.optional()
+  }),
+  prompts: promptsSchema.optional(),
+  containers: object({
+    maxConcurrent: positiveInteger.optional(),
+    maxPerRepo: positiveInteger.optional(),
+    maxPerOwner: positiveInteger.optional(),
+    ownerLimits: z.record(positiveInteger).optional(),
+    baseImage: text.optional(),
+    network: text.optional(),
+    memoryLimit: memoryLimit.optional(),
+    cpuLimit: cpuLimit.optional(),
+    env: env.optional(),
+    profiles: z.record(profileSchema).optional()
+  }).optional(),
+  budget: budgetSchema.optional(),
+  pullRequests: pullRequestTemplatesSchema.optional(),
+  prWorkflow: prWorkflowSchema.optional(),
+  validation: validationSchema.optional(),
+  server: object({
+    port: positiveInteger,
+    publicUrl: text,
+    agentSecret: text.optional(),
+    operatorToken: text.optional()
+  }),
+  state: object({
+    driver: z.enum(['sqlite', 'redis', 'memory']).optional(),
+    path: text.optional(),
+    url: text.optional()
+  }).optional(),
+  artifacts: object({
+    dir: text.optional()
+  }).optional()
+}).superRefine((config, ctx) => {
+  // A PAT or a GitHub App
+  if (!config.github.token && !config.github.app) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['github', 'token'], message: 'is required unless github.app is configured' });
+  }
+
+  const profiles = config.containers?.profiles || {};
+  // Prompts may be defined at the top level or under claude; the default always exists
+  const prompts = new Set(['default', ...Object.keys(config.prompts || {}), ...Object.keys(config.claude.prompts || {})]);
+  config.repos.forEach((repo, index) => {
+    if (repo.profile !== undefined && !profiles[repo.profile]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['repos', index, 'profile'],
+        message: `unknown container profile "${repo.profile}"`
+      });
+    }
+    if (repo.promptTemplate !== undefined && !prompts.has(repo.promptTemplate)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['repos', index, 'promptTemplate'],
+        message: `unknown prompt template "${repo.promptTemplate}" (available: ${Array.from(prompts).join(', ')})`
+      });
+    }
+  });
+});
+
+export type ConfigInput = z.infer<typeof configSchema>;
+
+/**
+ * Schema errors as "path: message" lines, with paths in the config file's snake_case
+ */
+export function formatConfigIssues(issues: z.ZodIssue[]): string[] {
+  return issues.map(issue => {
+    const path = issue.path
+      .map((segment, index) => typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${toSnakeCase(segment)}`)
+      .join('');
+    const message = issue.message === 'Required' ? 'is required' : issue.message;
+    return path ? `${path}: ${message}` : message;
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Config Watcher
+ * Reloads the configuration when config.yaml, config.local.yaml or a template file it
+ * references changes (or on request, e.g. SIGHUP). A reload that fails validation is
+ * rejected and the running configuration stays in effect.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError, loadConfigWithDefaults } from './config';
+import { logger } from './logger';
+import { OrchestratorConfig } from './types';
+
+// Editors often write a file in several steps; wait for them to finish
+const DEBOUNCE_MS = 500;
+
+export class ConfigWatcher {
+  private configPath: string;
+  private onReload: (config: OrchestratorConfig) => void;
+  private config?: OrchestratorConfig;
+  private files: Set<string> = new Set();
+  private watchers: Map<string, fs.FSWatcher> = new Map();  // By directory
+  private timer?: NodeJS.Timeout;
+  private watching: boolean = false;
+
+  constructor(configPath: string = 'config/config.yaml', onReload: (config: OrchestratorConfig) => void) {
+    this.configPath = configPath;
+    this.onReload = onReload;
+  }
+
+  /**
+   * Load the configuration for the first time. Errors are thrown.
+   */
+  load(): OrchestratorConfig {
+    const files: string[] = [];
+    this.config = loadConfigWithDefaults(this.configPath, files);
+    this.files = new Set(files);
+    return this.config;
+  }
+
+  /**
+   * Start watching the files the configuration was read from
+   */
+  start(): void {
+    this.watching = true;
+    this.updateWatchers();
+    logger.info(`Watching ${this.files.size} configuration files for changes`);
+  }
+
+  stop(): void {
+    this.watching = false;
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Load the configuration again and hand it over if it is valid and has changed.
+   * Returns whether a new configuration was applied.
+   */
+  reload(): boolean {
+    const files: string[] = [];
+    let config: OrchestratorConfig;
+    try {
+      config = loadConfigWithDefaults(this.configPath, files);
+    } catch (error) {
+      const errors = error instanceof ConfigError ? error.errors : [String(error)];
+      logger.error('Configuration reload rejected, keeping the current configuration', { errors });
+      return false;
+    }
+
+    // Prompt files may have been added or removed
+    this.files = new Set(files);
+    if (this.watching) {
+      this.updateWatchers();
+    }
+
+    if (JSON.stringify(config) === JSON.stringify(this.config)) {
+      logger.debug('Configuration files changed but the configuration did not');
+      return false;
+    }
+
+    try {
+      this.onReload(config);
+    } catch (error) {
+      logger.error('Failed to apply reloaded configuration', { error });
+      return false;
+    }
+    this.config = config;
+    return true;
+  }
+
+  /**
+   * Watch the directory of every file, rather than the files themselves, so files
+   * that are replaced on save (or don't exist yet, like config.local.yaml) are seen
+   */
+  private updateWatchers(): void {
+    const directories = new Set(Array.from(this.files, file => path.dirname(file)));
+
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) {
+        continue;
+      }
+      try {
+        const watcher = fs.watch(directory, (_event, filename) => {
+          if (!filename || this.files.has(path.join(directory, filename.toString()))) {
+            this.scheduleReload();
+          }
+        });
+        watcher.on('error', error => logger.warn(`Stopped watching ${directory}`, { error: String(error) }));
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        logger.warn(`Failed to watch ${directory} for configuration changes`, { error: String(error) });
+      }
+    }
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      logger.info('Configuration files changed, reloading');
+      this.reload();
+    }, DEBOUNCE_MS);
+  }
+}
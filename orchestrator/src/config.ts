@@ -5,37 +5,128 @@
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import { OrchestratorConfig, PromptTemplates } from './types';
+import * as crypto from 'crypto';
+import { ConfigInput, configSchema, formatConfigIssues, toSnakeCase } from './config-schema';
+import { PR_TEMPLATE_VARIABLES, PROMPT_VARIABLES, REVIEW_FEEDBACK_VARIABLES, TemplateVariables, checkTemplate } from './template-check';
+import {
+  OrchestratorConfig,
+  PRWorkflow,
+  PromptTemplates,
+  PullRequestTemplates,
+  RepoConfig,
+  RunBudget,
+  ValidationConfig
+} from './types';
+
+// Limits applied to every run unless configured otherwise (tokens and spend are unlimited)
+const DEFAULT_BUDGET: RunBudget = {
+  maxRuntimeMinutes: 25 * 60,  // Development plus a day of waiting for reviews
+  maxDevelopMinutes: 25,
+  maxIterateMinutes: 20,
+  maxIterations: 5
+};
 
-export function loadConfig(configPath: string = 'config/config.yaml'): OrchestratorConfig {
+/**
+ * Thrown when the configuration is invalid, listing every problem found
+ */
+export class ConfigError extends Error {
+  readonly errors: string[];
+
+  constructor(configPath: string, errors: string[]) {
+    super(`Invalid configuration in ${configPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Load and validate the config file with its .local.yaml overrides. Keys may be
+ * snake_case or camelCase; all problems are reported together in a ConfigError.
+ * Every file the config is read from (whether or not it exists yet) is added to `files`.
+ */
+export function loadConfig(
+  configPath: string = 'config/config.yaml',
+  files: string[] = []
+): ConfigInput & { partials: Record<string, string> } {
+  const localConfigPath = configPath.replace('.yaml', '.local.yaml');
+  files.push(path.resolve(configPath), path.resolve(localConfigPath));
+
+  let document: any;
   try {
-    const fileContents = fs.readFileSync(configPath, 'utf8');
-    let config = yaml.load(fileContents) as any;
+    document = yaml.load(fs.readFileSync(configPath, 'utf8')) ?? {};
 
     // Load local config overrides if exists
-    const localConfigPath = configPath.replace('.yaml', '.local.yaml');
     if (fs.existsSync(localConfigPath)) {
-      const localFileContents = fs.readFileSync(localConfigPath, 'utf8');
-      const localConfig = yaml.load(localFileContents) as any;
+      const localConfig = yaml.load(fs.readFileSync(localConfigPath, 'utf8')) ?? {};
       // Deep merge local config over base config
-      config = deepMerge(config, localConfig);
+      document = deepMerge(document, localConfig);
     }
+  } catch (error) {
+    throw new Error(`Failed to load configuration from ${configPath}: ${error}`);
+  }
+
+  // Substitute environment variables, then check everything against the schema
+  const errors: string[] = [];
+  const parsed = configSchema.safeParse(substituteEnvVars(document, errors));
+  if (!parsed.success) {
+    throw new ConfigError(configPath, [...errors, ...formatConfigIssues(parsed.error.issues)]);
+  }
+  const config = parsed.data;
 
-    // Substitute environment variables
-    const substituted = substituteEnvVars(config);
+  // Prompts may be given at the top level (as in the shipped config) or under claude
+  if (config.prompts) {
+    config.claude.prompts = { ...config.prompts, ...config.claude.prompts };
+    delete config.prompts;
+  }
 
-    // Load prompt templates
-    if (substituted.claude?.prompts) {
-      substituted.claude.prompts = loadPromptTemplates(substituted.claude.prompts, path.dirname(configPath));
+  // Load the GitHub App private key, prompt templates and PR templates (global and per repo)
+  const configDir = path.dirname(configPath);
+  const load = <T>(field: string, loader: () => T): T | undefined => {
+    try {
+      return loader();
+    } catch (error) {
+      errors.push(`${field}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
     }
+  };
 
-    // Validate required fields
-    validateConfig(substituted);
+  if (config.github.app) {
+    const app = config.github.app;
+    app.key = load('github.app.key', () => loadPrivateKey(app.key, configDir)) ?? app.key;
+  }
+  const { prompts } = config.claude;
+  if (prompts) {
+    config.claude.prompts = load('prompts', () => loadPromptTemplates(prompts, configDir, files));
+  }
+  const { pullRequests } = config;
+  if (pullRequests) {
+    config.pullRequests = load('pull_requests', () => loadPromptTemplates(pullRequests, configDir, files));
+  }
+  config.repos.forEach((repo, index) => {
+    const templates = repo.pullRequests;
+    if (templates) {
+      repo.pullRequests = load(`repos[${index}].pull_requests`, () => loadPromptTemplates(templates, configDir, files));
+    }
+  });
+
+  // Check the templates against the variables the agent renders them with
+  const partials = load('prompts/partials', () => loadPromptPartials(configDir, files)) || {};
+  const check = (field: string, templates: object | undefined, variables: (name: string) => TemplateVariables) => {
+    for (const [name, template] of Object.entries(templates || {})) {
+      if (typeof template === 'string') {
+        const problems = checkTemplate(template, variables(name), partials);
+        errors.push(...problems.map(problem => `${field}.${toSnakeCase(name)}: ${problem}`));
+      }
+    }
+  };
+  check('prompts', config.claude.prompts, name => name === 'reviewFeedback' ? REVIEW_FEEDBACK_VARIABLES : PROMPT_VARIABLES);
+  check('pull_requests', config.pullRequests, () => PR_TEMPLATE_VARIABLES);
+  config.repos.forEach((repo, index) => check(`repos[${index}].pull_requests`, repo.pullRequests, () => PR_TEMPLATE_VARIABLES));
 
-    return substituted as OrchestratorConfig;
-  } catch (error) {
-    throw new Error(`Failed to load configuration from ${configPath}: ${error}`);
+  if (errors.length > 0) {
+    throw new ConfigError(configPath, errors);
   }
+  return { ...config, partials };
 }
 
 /**
@@ -56,9 +147,9 @@ function deepMerge(base: any, override: any): any {
 }
 
 /**
- * Load prompt templates from config or external files
+ * Load prompt templates (or PR templates) from config or external files
  */
-function loadPromptTemplates(prompts: any, configDir: string): PromptTemplates {
+function loadPromptTemplates<T extends object>(prompts: T, configDir: string, files: string[]): T {
   const result: any = {};
 
   for (const [key, value] of Object.entries(prompts)) {
@@ -66,6 +157,7 @@ function loadPromptTemplates(prompts: any, configDir: string): PromptTemplates {
       // Check if it's a file path (starts with './', '../', or absolute)
       if (value.startsWith('./') || value.startsWith('../') || value.startsWith('/')) {
         const filePath = path.resolve(configDir, value);
+        files.push(filePath);
         try {
           result[key] = fs.readFileSync(filePath, 'utf8');
         } catch (error) {
@@ -78,31 +170,76 @@ function loadPromptTemplates(prompts: any, configDir: string): PromptTemplates {
     }
   }
 
-  return result as PromptTemplates;
+  return result as T;
 }
 
 /**
- * Recursively substitute ${VAR} with environment variables
+ * Load the shared snippets templates include as {{> name}}: the files in prompts/partials
+ * next to the config, each named after its file without the extension
  */
-function substituteEnvVars(obj: any): any {
+function loadPromptPartials(configDir: string, files: string[]): Record<string, string> {
+  const partialsDir = path.resolve(configDir, 'prompts', 'partials');
+  if (!fs.existsSync(partialsDir)) {
+    return {};
+  }
+
+  const partials: Record<string, string> = {};
+  for (const entry of fs.readdirSync(partialsDir, { withFileTypes: true })) {
+    if (!entry.isFile() || entry.name.startsWith('.')) {
+      continue;
+    }
+    const filePath = path.join(partialsDir, entry.name);
+    files.push(filePath);
+    try {
+      partials[path.parse(entry.name).name] = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to load prompt partial from ${filePath}: ${error}`);
+    }
+  }
+  return partials;
+}
+
+/**
+ * Load a PEM private key given inline (newlines may be escaped as \n, e.g. from
+ * an environment variable) or as a file path relative to the config file
+ */
+function loadPrivateKey(value: string, configDir: string): string {
+  if (value.startsWith('./') || value.startsWith('../') || value.startsWith('/')) {
+    const filePath = path.resolve(configDir, value);
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to load GitHub App private key from ${filePath}: ${error}`);
+    }
+  }
+
+  return value.replace(/\\n/g, '\n');
+}
+
+/**
+ * Recursively substitute ${VAR} with environment variables. Unset variables are
+ * added to `errors` (with where they were referenced) and left as written.
+ */
+function substituteEnvVars(obj: any, errors: string[], field: string = ''): any {
   if (typeof obj === 'string') {
-    return obj.replace(/\$\{([^}]+)\}/g, (_, varName) => {
+    return obj.replace(/\$\{([^}]+)\}/g, (reference, varName) => {
       const value = process.env[varName];
       if (value === undefined) {
-        throw new Error(`Environment variable ${varName} is not set but referenced in config`);
+        errors.push(`${field}: environment variable ${varName} is not set but referenced in config`);
+        return reference;
       }
       return value;
     });
   }
 
   if (Array.isArray(obj)) {
-    return obj.map(substituteEnvVars);
+    return obj.map((item, index) => substituteEnvVars(item, errors, `${field}[${index}]`));
   }
 
   if (obj && typeof obj === 'object') {
     const result: any = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = substituteEnvVars(value);
+      result[key] = substituteEnvVars(value, errors, field ? `${field}.${key}` : key);
     }
     return result;
   }
@@ -111,56 +248,47 @@ function substituteEnvVars(obj: any): any {
 }
 
 /**
- * Validate required configuration fields
+ * The budget for a run in a repo: the repo's limits over the global ones
  */
-function validateConfig(config: any): void {
-  const required = [
-    'github.token',
-    'github.webhookSecret',
-    'claude.apiKey',
-    'server.port',
-    'server.publicUrl'
-  ];
-
-  for (const field of required) {
-    const parts = field.split('.');
-    let current = config;
-    for (const part of parts) {
-      if (!current || current[part] === undefined) {
-        throw new Error(`Missing required configuration field: ${field}`);
-      }
-      current = current[part];
-    }
-  }
+export function getRunBudget(config: OrchestratorConfig, repoConfig?: RepoConfig): RunBudget {
+  return { ...config.budget, ...repoConfig?.budget };
+}
 
-  // Validate repos array
-  if (!Array.isArray(config.repos) || config.repos.length === 0) {
-    throw new Error('Configuration must include at least one repository in repos array');
-  }
+/**
+ * The PR templates for a repo: the repo's templates over the global ones
+ */
+export function getPullRequestTemplates(config: OrchestratorConfig, repoConfig?: RepoConfig): PullRequestTemplates {
+  return { ...config.pullRequests, ...repoConfig?.pullRequests };
+}
 
-  // Validate each repo config
-  for (const repo of config.repos) {
-    if (!repo.owner || !repo.name || !repo.triggerComment) {
-      throw new Error('Each repo must have owner, name, and triggerComment fields');
-    }
-  }
+/**
+ * The PR workflow for a repo: the repo's settings over the global ones
+ */
+export function getPRWorkflow(config: OrchestratorConfig, repoConfig?: RepoConfig): PRWorkflow {
+  return { ...config.prWorkflow, ...repoConfig?.prWorkflow };
+}
 
-  // Validate numeric values
-  if (config.containers?.maxConcurrent !== undefined) {
-    if (typeof config.containers.maxConcurrent !== 'number' || config.containers.maxConcurrent < 1) {
-      throw new Error('containers.maxConcurrent must be a positive number');
-    }
+/**
+ * The validation settings for a repo: the repo's settings over the global ones, with
+ * the repo's `validate` list as the commands
+ */
+export function getValidation(config: OrchestratorConfig, repoConfig?: RepoConfig): ValidationConfig {
+  const validation = { ...config.validation, ...repoConfig?.validation };
+  if (repoConfig?.validate) {
+    validation.commands = repoConfig.validate;
   }
+  return validation;
 }
 
 /**
  * Load config with defaults
  */
-export function loadConfigWithDefaults(configPath?: string): OrchestratorConfig {
-  const config = loadConfig(configPath);
+export function loadConfigWithDefaults(configPath?: string, files?: string[]): OrchestratorConfig {
+  const config = loadConfig(configPath, files);
 
-  // Default prompt templates
+  // Default prompt templates, alongside the named ones
   const defaultPrompts: PromptTemplates = {
+    ...config.claude.prompts,
     default: config.claude?.prompts?.default || getDefaultPrompt(),
     reviewFeedback: config.claude?.prompts?.reviewFeedback || getDefaultReviewPrompt()
   };
@@ -172,18 +300,41 @@ export function loadConfigWithDefaults(configPath?: string): OrchestratorConfig
     claude: {
       apiKey: config.claude.apiKey,
       maxTokens: config.claude.maxTokens || 200000,
-      prompts: defaultPrompts
+      prompts: defaultPrompts,
+      partials: config.partials
     },
     containers: {
       maxConcurrent: config.containers?.maxConcurrent || 5,
+      maxPerRepo: config.containers?.maxPerRepo,
+      maxPerOwner: config.containers?.maxPerOwner,
+      ownerLimits: config.containers?.ownerLimits,
       baseImage: config.containers?.baseImage || 'ghcr-agent:latest',
       network: config.containers?.network || 'bridge',
       memoryLimit: config.containers?.memoryLimit || '4g',
-      cpuLimit: config.containers?.cpuLimit || '2'
+      cpuLimit: config.containers?.cpuLimit || '2',
+      env: config.containers?.env,
+      profiles: config.containers?.profiles
     },
+    budget: { ...DEFAULT_BUDGET, ...config.budget },
+    pullRequests: config.pullRequests,
+    prWorkflow: config.prWorkflow,
+    validation: config.validation,
     server: {
       port: config.server.port || 3000,
-      publicUrl: config.server.publicUrl
+      publicUrl: config.server.publicUrl,
+      // Must be stable across restarts so agents launched earlier can still authenticate
+      agentSecret: config.server.agentSecret ||
+        process.env.AGENT_TOKEN_SECRET ||
+        crypto.createHmac('sha256', config.github.webhookSecret).update('autogen-agent-tokens').digest('hex'),
+      operatorToken: config.server.operatorToken || process.env.OPERATOR_TOKEN
+    },
+    state: {
+      driver: config.state?.driver || 'sqlite',
+      path: config.state?.path || 'data/state.db',
+      url: config.state?.url || process.env.REDIS_URL
+    },
+    artifacts: {
+      dir: config.artifacts?.dir || process.env.ARTIFACTS_DIR || 'data/artifacts'
     }
   };
 }
@@ -202,11 +353,6 @@ Description:
 {{issue_body}}
 {{/if}}
 
-{{#if additional_context}}
-Additional Context:
-{{additional_context}}
-{{/if}}
-
 ## Instructions
 1. First, explore the codebase to understand the structure and relevant files.
 2. Analyze the issue and determine what changes are needed.
@@ -234,7 +380,7 @@ function getDefaultReviewPrompt(): string {
 {{feedback}}
 
 ## Instructions
-1. Read and understand the feedback.
+1. Read and understand the feedback. Inline comments are grouped by file, with the diff they refer to.
 2. Make the necessary changes to address the feedback.
 3. Test your changes if applicable.
 4. Commit the changes with a message like "Address review feedback: [summary]".
@@ -242,3 +388,4 @@ function getDefaultReviewPrompt(): string {
 
 Begin addressing the feedback now.`;
 }
+
@@ -4,33 +4,85 @@
  */
 
 import Docker from 'dockerode';
-import { ActiveIssue, OrchestratorConfig } from './types';
+import { ActiveIssue, ContainerProfile, OrchestratorConfig, RepoConfig } from './types';
+import { AgentAuth } from './agent-auth';
+import { Identity } from './identity';
+import { GitHubTokenProvider } from './github-auth';
+import { SecretsBroker } from './secrets-broker';
+import { redact } from './redact';
+import { getPRWorkflow, getPullRequestTemplates, getRunBudget, getValidation } from './config';
+import { applyRepoSettings } from './repo-settings';
+
+// tmpfs mount the entrypoint writes claimed secrets to; never touches disk or image layers
+const SECRETS_DIR = '/run/agent-secrets';
+
+/**
+ * A container carrying the autogen.* labels
+ */
+export interface ManagedContainer {
+  id: string;
+  name: string;
+  status: string;   // Human readable, e.g. "Up 5 minutes"
+  state: string;    // running, exited, dead, ...
+  labels: Record<string, string>;
+}
 
 export class ContainerManager {
   private docker: Docker;
   private config: OrchestratorConfig;
-
-  constructor(config: OrchestratorConfig) {
+  private agentAuth: AgentAuth;
+  private identity: Identity;
+  private tokens: GitHubTokenProvider;
+  private secretsBroker: SecretsBroker;
+
+  constructor(
+    config: OrchestratorConfig,
+    agentAuth: AgentAuth,
+    identity: Identity,
+    tokens: GitHubTokenProvider,
+    secretsBroker: SecretsBroker
+  ) {
     this.docker = new Docker({ socketPath: '/var/run/docker.sock' });
     this.config = config;
+    this.agentAuth = agentAuth;
+    this.identity = identity;
+    this.tokens = tokens;
+    this.secretsBroker = secretsBroker;
+  }
+
+  /**
+   * Use a reloaded configuration for containers started from now on
+   */
+  updateConfig(config: OrchestratorConfig): void {
+    this.config = config;
   }
 
   /**
    * Start a new agent container for an issue
    */
-  async startAgentContainer(issue: ActiveIssue): Promise<string> {
+  async startAgentContainer(issue: ActiveIssue): Promise<{ id: string; name: string }> {
     const containerName = this.generateContainerName(issue);
 
-    // Find the repo config to get custom prompt template
-    const repoConfig = this.config.repos.find(
+    // Find the repo config to get custom prompt template, with the repo's .autogas.yml applied
+    const repoConfig = applyRepoSettings(this.config.repos.find(
       r => r.owner.toLowerCase() === issue.repoOwner.toLowerCase() &&
            r.name.toLowerCase() === issue.repoName.toLowerCase()
-    );
+    ), issue.repoSettings);
 
-    // Get the prompt template for this repo (or use default)
-    const promptTemplate = this.getPromptTemplate(repoConfig);
+    // Get the prompt template for this run (or this repo's, or the default)
+    const promptTemplate = this.getPromptTemplate(repoConfig, issue.promptTemplate);
     const reviewFeedbackTemplate = this.config.claude.prompts?.reviewFeedback || '';
 
+    // A token scoped to this repository (short-lived for a GitHub App; the agent refreshes it)
+    const githubToken = await this.tokens.getAgentToken(issue.repoOwner, issue.repoName);
+
+    // Credentials are claimed once from the orchestrator, not passed as env vars,
+    // so they don't show up in `docker inspect` or in processes Claude spawns
+    this.secretsBroker.register(containerName, {
+      anthropicApiKey: this.config.claude.apiKey,
+      githubToken
+    });
+
     // Prepare environment variables
     const env = [
       `GITHUB_REPO_OWNER=${issue.repoOwner}`,
@@ -38,13 +90,31 @@ export class ContainerManager {
       `GITHUB_ISSUE_NUMBER=${issue.issueNumber}`,
       `GITHUB_ISSUE_TITLE=${this.escapeEnvVar(issue.issueTitle)}`,
       `GITHUB_ISSUE_BODY=${this.escapeEnvVar(issue.issueBody)}`,
-      `ANTHROPIC_API_KEY=${this.config.claude.apiKey}`,
-      `GITHUB_TOKEN=${this.config.github.token}`,
       `ORCHESTRATOR_URL=${this.config.server.publicUrl}`,
       `CONTAINER_ID=${containerName}`,
+      // Only good for claiming the secrets (the run token among them) once
+      `SECRETS_CLAIM_TOKEN=${this.agentAuth.issueClaimToken(containerName)}`,
+      `SECRETS_DIR=${SECRETS_DIR}`,
+      `BRANCH_NAME=${issue.branchName}`,
+      `BASE_BRANCH=${repoConfig?.baseBranch || ''}`,
       `NODE_ENV=production`,
-      `PROMPT_TEMPLATE=${this.escapeEnvVar(promptTemplate)}`,
-      `REVIEW_FEEDBACK_TEMPLATE=${this.escapeEnvVar(reviewFeedbackTemplate)}`,
+      // Templates are JSON so their newlines and quotes reach the agent intact
+      `PROMPT_TEMPLATE=${JSON.stringify(promptTemplate)}`,
+      `REVIEW_FEEDBACK_TEMPLATE=${JSON.stringify(reviewFeedbackTemplate)}`,
+      `PROMPT_PARTIALS=${JSON.stringify(this.config.claude.partials || {})}`,
+      `TRIGGER_AUTHOR=${issue.triggerAuthor || ''}`,
+      // Limits the agent enforces on itself (the orchestrator backstops them)
+      `AGENT_BUDGET=${JSON.stringify(getRunBudget(this.config, repoConfig))}`,
+      // How the agent describes its work in the PR and commit (JSON keeps the newlines)
+      `PR_TEMPLATES=${JSON.stringify(getPullRequestTemplates(this.config, repoConfig))}`,
+      `PR_WORKFLOW=${JSON.stringify(getPRWorkflow(this.config, repoConfig))}`,
+      // Checks the agent runs before handing its work to reviewers
+      `VALIDATION=${JSON.stringify(getValidation(this.config, repoConfig))}`,
+      `ALLOWED_PATHS=${JSON.stringify(repoConfig?.allowedPaths || [])}`,
+      // Whose PR comments the agent acts on (see identity.ts)
+      `AGENT_LOGIN=${this.identity.getSelfLogin() || ''}`,
+      `IGNORE_USERS=${(repoConfig?.ignoreUsers || []).join(',')}`,
+      `TRUSTED_BOTS=${(repoConfig?.trustedBots || []).join(',')}`,
       // Force non-interactive mode for all tools
       `CI=true`,
       `CLAUDE_NON_INTERACTIVE=true`,
@@ -52,22 +122,26 @@ export class ContainerManager {
       `AUTO_CONFIRM=true`
     ];
 
+    // Image, limits and extra env for this repo's toolchain
+    const profile = this.resolveProfile(repoConfig);
+
     // Add custom container env vars from config (for local overrides, testing, etc.)
-    if (this.config.containers.env) {
-      for (const [key, value] of Object.entries(this.config.containers.env)) {
-        env.push(`${key}=${this.escapeEnvVar(value)}`);
-      }
+    for (const [key, value] of Object.entries(profile.env)) {
+      env.push(`${key}=${this.escapeEnvVar(value)}`);
     }
 
     // Container configuration
     const containerConfig: Docker.ContainerCreateOptions = {
       name: containerName,
-      Image: this.config.containers.baseImage,
+      Image: profile.image,
       Env: env,
       HostConfig: {
-        NetworkMode: this.config.containers.network,
-        Memory: this.parseMemoryLimit(this.config.containers.memoryLimit),
-        NanoCpus: this.parseCpuLimit(this.config.containers.cpuLimit),
+        NetworkMode: profile.network,
+        Memory: this.parseMemoryLimit(profile.memoryLimit),
+        NanoCpus: this.parseCpuLimit(profile.cpuLimit),
+        Binds: profile.volumes,
+        // Owned by the image's non-root agent user (uid 1000); the sandbox user Claude runs as can't read it
+        Tmpfs: { [SECRETS_DIR]: 'rw,noexec,nosuid,nodev,size=1m,uid=1000,gid=1000,mode=0700' },
         AutoRemove: false // We'll handle cleanup manually
       },
       Labels: {
@@ -75,20 +149,23 @@ export class ContainerManager {
         'autogen.type': 'agent',
         'autogen.repo': `${issue.repoOwner}/${issue.repoName}`,
         'autogen.issue': issue.issueNumber.toString(),
-        'autogen.started': issue.startedAt.toISOString()
+        'autogen.branch': issue.branchName,
+        'autogen.started': issue.startedAt.toISOString(),
+        'autogen.profile': repoConfig?.profile || 'default'
       }
     };
 
     try {
       // Pull the image if not exists
-      await this.ensureImage(this.config.containers.baseImage);
+      await this.ensureImage(profile.image);
 
       // Create and start the container
       const container = await this.docker.createContainer(containerConfig);
       await container.start();
 
-      return container.id;
+      return { id: container.id, name: containerName };
     } catch (error) {
+      this.secretsBroker.forget(containerName);
       throw new Error(`Failed to start container: ${error}`);
     }
   }
@@ -113,7 +190,7 @@ export class ContainerManager {
   }
 
   /**
-   * Get container logs
+   * Get container logs, with credentials redacted
    */
   async getLogs(containerId: string, tail: number = 100): Promise<string> {
     try {
@@ -124,7 +201,7 @@ export class ContainerManager {
         tail: tail,
         timestamps: true
       });
-      return logs.toString('utf-8');
+      return redact(logs.toString('utf-8'));
     } catch (error) {
       return `Error reading logs: ${error}`;
     }
@@ -158,7 +235,7 @@ export class ContainerManager {
   /**
    * List all containers managed by this orchestrator
    */
-  async listActiveContainers(): Promise<Array<{ id: string; name: string; status: string }>> {
+  async listActiveContainers(): Promise<ManagedContainer[]> {
     try {
       const containers = await this.docker.listContainers({ all: true });
 
@@ -167,7 +244,9 @@ export class ContainerManager {
         .map(c => ({
           id: c.Id,
           name: c.Names[0].replace(/^\//, ''),
-          status: c.Status
+          status: c.Status,
+          state: c.State,
+          labels: c.Labels || {}
         }));
     } catch (error) {
       throw new Error(`Failed to list containers: ${error}`);
@@ -275,12 +354,30 @@ export class ContainerManager {
   }
 
   /**
-   * Get the prompt template for a repo
+   * Resolve a repo's container profile over the global container settings
+   */
+  private resolveProfile(repoConfig?: RepoConfig): Required<ContainerProfile> {
+    const defaults = this.config.containers;
+    const profile: ContainerProfile = (repoConfig?.profile && defaults.profiles?.[repoConfig.profile]) || {};
+
+    return {
+      image: profile.image || defaults.baseImage,
+      memoryLimit: profile.memoryLimit || defaults.memoryLimit,
+      cpuLimit: String(profile.cpuLimit || defaults.cpuLimit),
+      network: profile.network || defaults.network,
+      env: { ...defaults.env, ...profile.env },
+      volumes: profile.volumes || []
+    };
+  }
+
+  /**
+   * Get the prompt template for a repo, or a named template chosen for this run
    */
-  private getPromptTemplate(repoConfig?: any): string {
-    if (repoConfig?.promptTemplate) {
-      // If repo specifies a named template, look it up
-      const namedTemplate = this.config.claude.prompts?.[repoConfig.promptTemplate];
+  private getPromptTemplate(repoConfig?: any, override?: string): string {
+    const name = override || repoConfig?.promptTemplate;
+    if (name) {
+      // If a named template was requested, look it up
+      const namedTemplate = this.config.claude.prompts?.[name];
       if (namedTemplate) {
         return namedTemplate;
       }
@@ -0,0 +1,280 @@
+/**
+ * GitHub Authentication
+ * Supplies the tokens used for GitHub API calls, either a personal access token or
+ * short-lived GitHub App installation tokens scoped to a single repository
+ */
+
+import crypto from 'crypto';
+import { Octokit } from 'octokit';
+import { OrchestratorConfig } from './types';
+import { logger } from './logger';
+
+const GITHUB_API = 'https://api.github.com';
+
+// Refresh installation tokens this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Permissions for the orchestrator's own API calls on a repository
+const ORCHESTRATOR_PERMISSIONS = {
+  metadata: 'read',
+  contents: 'read',
+  issues: 'write',
+  pull_requests: 'write'
+};
+
+// Permissions for org-level calls (team and org membership checks)
+const ORG_PERMISSIONS = {
+  members: 'read'
+};
+
+// Permissions for an agent container working on one repository
+const AGENT_PERMISSIONS = {
+  metadata: 'read',
+  contents: 'write',
+  issues: 'write',
+  pull_requests: 'write'
+};
+
+/**
+ * What a token will be used for. Repository calls get a token scoped to that
+ * repository; org calls get one for the org's installation.
+ */
+export interface TokenScope {
+  owner?: string;
+  repo?: string;
+  org?: string;
+}
+
+export interface ScopedToken {
+  token: string;
+  expiresAt?: Date;  // Unset for tokens that don't expire (PATs)
+}
+
+export interface GitHubTokenProvider {
+  /**
+   * Token for an API call in the given scope
+   */
+  getToken(scope?: TokenScope): Promise<string>;
+
+  /**
+   * A fresh token for an agent container working on one repository
+   */
+  getAgentToken(owner: string, repo: string): Promise<ScopedToken>;
+
+  /**
+   * The login the tokens act as
+   */
+  getLogin(): Promise<string>;
+}
+
+/**
+ * A single personal access token used for everything
+ */
+export class PatTokenProvider implements GitHubTokenProvider {
+  private token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  async getAgentToken(): Promise<ScopedToken> {
+    return { token: this.token };
+  }
+
+  async getLogin(): Promise<string> {
+    const data = await githubRequest('GET', '/user', `token ${this.token}`);
+    return data.login;
+  }
+}
+
+/**
+ * GitHub App authentication: signs app JWTs with the private key and mints
+ * installation tokens per repository, refreshing them before they expire
+ */
+export class GitHubAppTokenProvider implements GitHubTokenProvider {
+  private appId: string;
+  private privateKey: string;
+  private defaultScope: TokenScope;
+  private installations: Map<string, number> = new Map();
+  private tokens: Map<string, ScopedToken> = new Map();
+  private pending: Map<string, Promise<ScopedToken>> = new Map();
+
+  constructor(appId: string, privateKey: string, defaultScope: TokenScope = {}) {
+    this.appId = appId;
+    this.privateKey = privateKey;
+    this.defaultScope = defaultScope;
+  }
+
+  async getToken(scope: TokenScope = {}): Promise<string> {
+    if (scope.owner && scope.repo) {
+      return (await this.getInstallationToken(scope.owner, scope.repo, 'orchestrator', ORCHESTRATOR_PERMISSIONS)).token;
+    }
+
+    const org = scope.org || scope.owner;
+    if (org) {
+      return (await this.getInstallationToken(org, undefined, 'org', ORG_PERMISSIONS)).token;
+    }
+
+    // Calls with no repository (e.g. rate limits) use the first configured repo's installation
+    if (this.defaultScope.owner && this.defaultScope.repo) {
+      return this.getToken(this.defaultScope);
+    }
+
+    throw new Error('Cannot pick a GitHub App installation for a call without a repository');
+  }
+
+  async getAgentToken(owner: string, repo: string): Promise<ScopedToken> {
+    return this.getInstallationToken(owner, repo, 'agent', AGENT_PERMISSIONS);
+  }
+
+  async getLogin(): Promise<string> {
+    const data = await githubRequest('GET', '/app', `Bearer ${this.createJwt()}`);
+    return `${data.slug}[bot]`;
+  }
+
+  /**
+   * Sign a short-lived JWT identifying the app (RS256)
+   */
+  createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: 'RS256', typ: 'JWT' };
+    // Backdate iat to allow for clock drift; GitHub caps exp at 10 minutes
+    const payload = { iat: now - 60, exp: now + 9 * 60, iss: this.appId };
+
+    const unsigned = [header, payload]
+      .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(this.privateKey, 'base64url');
+
+    return `${unsigned}.${signature}`;
+  }
+
+  /**
+   * Get a cached installation token, minting a new one if it's missing or about to expire.
+   * Concurrent requests for the same token share one API call.
+   */
+  private async getInstallationToken(
+    owner: string,
+    repo: string | undefined,
+    purpose: string,
+    permissions: Record<string, string>
+  ): Promise<ScopedToken> {
+    const key = `${owner}/${repo || '*'}:${purpose}`.toLowerCase();
+
+    const cached = this.tokens.get(key);
+    if (cached?.expiresAt && cached.expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+      return cached;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.mintToken(owner, repo, permissions)
+        .then(token => {
+          this.tokens.set(key, token);
+          return token;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  private async mintToken(
+    owner: string,
+    repo: string | undefined,
+    permissions: Record<string, string>
+  ): Promise<ScopedToken> {
+    try {
+      const installationId = await this.getInstallationId(owner, repo);
+      const data = await githubRequest(
+        'POST',
+        `/app/installations/${installationId}/access_tokens`,
+        `Bearer ${this.createJwt()}`,
+        repo ? { repositories: [repo], permissions } : { permissions }
+      );
+
+      logger.debug(`Minted installation token for ${owner}/${repo || '*'}`, { expiresAt: data.expires_at });
+      return { token: data.token, expiresAt: new Date(data.expires_at) };
+    } catch (error) {
+      throw new Error(`Failed to mint installation token for ${owner}/${repo || '*'}: ${error}`);
+    }
+  }
+
+  private async getInstallationId(owner: string, repo?: string): Promise<number> {
+    const key = `${owner}/${repo || '*'}`.toLowerCase();
+    const cached = this.installations.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // /users/{name}/installation works for organization and user accounts alike
+    const path = repo ? `/repos/${owner}/${repo}/installation` : `/users/${owner}/installation`;
+    const data = await githubRequest('GET', path, `Bearer ${this.createJwt()}`);
+
+    this.installations.set(key, data.id);
+    return data.id;
+  }
+}
+
+/**
+ * Create the token provider for the configured credentials
+ */
+export function createTokenProvider(config: OrchestratorConfig): GitHubTokenProvider {
+  const { app, token } = config.github;
+
+  if (app) {
+    const firstRepo = config.repos.find(r => r.enabled) || config.repos[0];
+    logger.info(`Using GitHub App ${app.id} for GitHub authentication`);
+    return new GitHubAppTokenProvider(String(app.id), app.key, {
+      owner: firstRepo?.owner,
+      repo: firstRepo?.name
+    });
+  }
+
+  if (!token) {
+    throw new Error('Either github.token or github.app must be configured');
+  }
+
+  return new PatTokenProvider(token);
+}
+
+/**
+ * Create an Octokit client that authenticates each request with a token for the
+ * repository (or org) it targets
+ */
+export function createOctokit(tokens: GitHubTokenProvider): Octokit {
+  const octokit = new Octokit();
+
+  octokit.hook.before('request', async (options: any) => {
+    const token = await tokens.getToken({ owner: options.owner, repo: options.repo, org: options.org });
+    options.headers.authorization = `token ${token}`;
+  });
+
+  return octokit;
+}
+
+/**
+ * Minimal REST call used before an Octokit client is available (and for app JWT calls)
+ */
+async function githubRequest(method: string, path: string, authorization: string, body?: any): Promise<any> {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    method,
+    headers: {
+      'Authorization': authorization,
+      'Accept': 'application/vnd.github+json',
+      ...(body && { 'Content-Type': 'application/json' })
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${await response.text()}`);
+  }
+
+  return response.json();
+}
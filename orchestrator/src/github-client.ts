@@ -4,14 +4,26 @@
  */
 
 import { Octokit } from 'octokit';
-import { CreatePRParams, GitHubIssue, PullRequest, Review, RepoConfig } from './types';
+import { GitHubTokenProvider, createOctokit } from './github-auth';
+import { redact } from './redact';
+import {
+  CreatePRParams,
+  GitHubIssue,
+  PullRequest,
+  Review,
+  RepoConfig,
+  RepoPermission,
+  REPO_PERMISSIONS
+} from './types';
 
 export class GitHubClient {
   private octokit: Octokit;
+  private tokens: GitHubTokenProvider;
   private webhookSecret: string;
 
-  constructor(token: string, webhookSecret: string) {
-    this.octokit = new Octokit({ auth: token });
+  constructor(tokens: GitHubTokenProvider, webhookSecret: string) {
+    this.tokens = tokens;
+    this.octokit = createOctokit(tokens);
     this.webhookSecret = webhookSecret;
   }
 
@@ -25,29 +37,6 @@ export class GitHubClient {
     return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest));
   }
 
-  /**
-   * Check if a comment body matches any trigger comment
-   */
-  isTriggerComment(body: string, repos: RepoConfig[]): boolean {
-    const lowerBody = body.toLowerCase();
-    return repos.some(repo =>
-      repo.enabled && lowerBody.includes(repo.triggerComment.toLowerCase())
-    );
-  }
-
-  /**
-   * Get the trigger comment that was matched
-   */
-  getMatchedTrigger(body: string, repos: RepoConfig[]): string | null {
-    const lowerBody = body.toLowerCase();
-    for (const repo of repos) {
-      if (repo.enabled && lowerBody.includes(repo.triggerComment.toLowerCase())) {
-        return repo.triggerComment;
-      }
-    }
-    return null;
-  }
-
   /**
    * Get repo config for a specific repository
    */
@@ -60,36 +49,59 @@ export class GitHubClient {
   }
 
   /**
-   * Check if a comment is from a bot (to avoid loops)
+   * Get the login of the account we authenticate as (the app's bot account for a GitHub App)
    */
-  isBotComment(userLogin: string): boolean {
-    const botSuffixes = ['[bot]', '-bot', 'bot', 'agent', 'ai-agent'];
-    return botSuffixes.some(suffix =>
-      userLogin.toLowerCase().endsWith(suffix)
-    );
+  async getAuthenticatedLogin(): Promise<string> {
+    try {
+      return await this.tokens.getLogin();
+    } catch (error) {
+      throw new Error(`Failed to get authenticated user: ${error}`);
+    }
   }
 
   /**
-   * Post a comment on an issue
+   * Post a comment on an issue (credentials redacted). Returns the new comment's ID.
    */
   async postIssueComment(
     owner: string,
     repo: string,
     issueNumber: number,
     body: string
-  ): Promise<void> {
+  ): Promise<number> {
     try {
-      await this.octokit.rest.issues.createComment({
+      const { data } = await this.octokit.rest.issues.createComment({
         owner,
         repo,
         issue_number: issueNumber,
-        body
+        body: redact(body)
       });
+      return data.id;
     } catch (error) {
       throw new Error(`Failed to post comment to ${owner}/${repo}#${issueNumber}: ${error}`);
     }
   }
 
+  /**
+   * Edit an existing issue comment (credentials redacted)
+   */
+  async updateIssueComment(
+    owner: string,
+    repo: string,
+    commentId: number,
+    body: string
+  ): Promise<void> {
+    try {
+      await this.octokit.rest.issues.updateComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        body: redact(body)
+      });
+    } catch (error) {
+      throw new Error(`Failed to update comment ${commentId} in ${owner}/${repo}: ${error}`);
+    }
+  }
+
   /**
    * Add a reaction to an issue comment
    */
@@ -130,6 +142,7 @@ export class GitHubClient {
         title: data.title,
         body: data.body || '',
         htmlUrl: data.html_url,
+        state: data.state as 'open' | 'closed',
         user: {
           login: data.user?.login || 'unknown'
         }
@@ -206,6 +219,38 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * List open PRs created by agents (identified by the ai-agent-issue- branch prefix)
+   */
+  async listAgentPRs(owner: string, repo: string): Promise<PullRequest[]> {
+    try {
+      const data = await this.octokit.paginate(this.octokit.rest.pulls.list, {
+        owner,
+        repo,
+        state: 'open',
+        per_page: 100
+      });
+
+      return data
+        .filter((pr: any) => pr.head.ref.startsWith('ai-agent-issue-'))
+        .map((pr: any) => ({
+          number: pr.number,
+          title: pr.title,
+          body: pr.body || '',
+          htmlUrl: pr.html_url,
+          headRef: {
+            name: pr.head.ref
+          },
+          baseRef: {
+            name: pr.base.ref
+          },
+          state: pr.state as 'open' | 'closed' | 'merged'
+        }));
+    } catch (error) {
+      throw new Error(`Failed to list agent PRs in ${owner}/${repo}: ${error}`);
+    }
+  }
+
   /**
    * Get reviews on a PR
    */
@@ -262,7 +307,7 @@ export class GitHubClient {
       owner,
       repo,
       issue_number: prNumber,
-      body: status
+      body: redact(status)
     });
   }
 
@@ -292,6 +337,30 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Get a file's content from the default branch (or `ref`); null if the file doesn't exist
+   */
+  async getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref
+      });
+
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+        return null;
+      }
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to get ${path} from ${owner}/${repo}: ${error}`);
+    }
+  }
+
   /**
    * Check if repository is accessible
    */
@@ -306,4 +375,64 @@ export class GitHubClient {
       return false;
     }
   }
+
+  /**
+   * Get a user's permission on a repository ('none' if they aren't a collaborator)
+   */
+  async getUserPermission(owner: string, repo: string, username: string): Promise<RepoPermission | 'none'> {
+    try {
+      const { data } = await this.octokit.rest.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username
+      });
+
+      // role_name distinguishes maintain/triage, which `permission` folds into write/read
+      const role = (data.role_name || data.permission) as string;
+      return (REPO_PERMISSIONS as string[]).includes(role) ? role as RepoPermission : 'none';
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return 'none';
+      }
+      throw new Error(`Failed to get permission for ${username} on ${owner}/${repo}: ${error}`);
+    }
+  }
+
+  /**
+   * Check if a user is an active member of a team
+   */
+  async isTeamMember(org: string, teamSlug: string, username: string): Promise<boolean> {
+    try {
+      const { data } = await this.octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: teamSlug,
+        username
+      });
+      return data.state === 'active';
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return false;
+      }
+      throw new Error(`Failed to check membership of ${username} in ${org}/${teamSlug}: ${error}`);
+    }
+  }
+
+  /**
+   * Check if a user is a member of an organization
+   */
+  async isOrgMember(org: string, username: string): Promise<boolean> {
+    try {
+      const { status } = await this.octokit.rest.orgs.checkMembershipForUser({
+        org,
+        username
+      });
+      return status === 204;
+    } catch (error: any) {
+      // 404: not a member; 302: the token can't see private membership
+      if (error?.status === 404 || error?.status === 302) {
+        return false;
+      }
+      throw new Error(`Failed to check membership of ${username} in ${org}: ${error}`);
+    }
+  }
 }
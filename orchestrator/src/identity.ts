@@ -0,0 +1,70 @@
+/**
+ * Identity
+ * Decides whose comments and reviews the orchestrator acts on: never its own, never
+ * other bots (GitHub's `type: Bot`) unless trusted, and never users a repo ignores.
+ */
+
+import { GitHubClient } from './github-client';
+import { RepoConfig } from './types';
+import { logger } from './logger';
+
+export interface GitHubActor {
+  login?: string;
+  type?: string;  // "User", "Bot" or "Organization", as reported by GitHub
+}
+
+export class Identity {
+  private githubClient: GitHubClient;
+  private selfLogin?: string;
+
+  constructor(githubClient: GitHubClient) {
+    this.githubClient = githubClient;
+  }
+
+  /**
+   * Resolve the login the orchestrator's token acts as (call once on boot)
+   */
+  async init(): Promise<void> {
+    try {
+      this.selfLogin = await this.githubClient.getAuthenticatedLogin();
+      logger.info(`Acting on GitHub as ${this.selfLogin}`);
+    } catch (error) {
+      logger.error('Failed to resolve own GitHub login; only bot accounts will be ignored', { error });
+    }
+  }
+
+  /**
+   * The login the orchestrator (and its agents) act as, if known
+   */
+  getSelfLogin(): string | undefined {
+    return this.selfLogin;
+  }
+
+  /**
+   * Whether an actor is the orchestrator's own account
+   */
+  isSelf(login?: string): boolean {
+    return !!login && !!this.selfLogin && login.toLowerCase() === this.selfLogin.toLowerCase();
+  }
+
+  /**
+   * Whether to ignore a comment, review or issue by this actor
+   */
+  shouldIgnore(actor: GitHubActor | undefined, repo?: RepoConfig): boolean {
+    const login = actor?.login;
+    if (!login || this.isSelf(login)) {
+      return true;
+    }
+
+    const lower = login.toLowerCase();
+    if ((repo?.ignoreUsers || []).some(user => user.toLowerCase() === lower)) {
+      return true;
+    }
+
+    if (actor?.type === 'Bot' || lower.endsWith('[bot]')) {
+      return !(repo?.trustedBots || []).some(bot => bot.toLowerCase() === lower);
+    }
+
+    return false;
+  }
+}
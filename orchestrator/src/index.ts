@@ -4,14 +4,39 @@
  */
 
 import dotenv from 'dotenv';
-import { OrchestratorConfig, ActiveIssue } from './types';
-import { loadConfigWithDefaults } from './config';
+import {
+  OrchestratorConfig,
+  ActiveIssue,
+  AgentCommand,
+  AgentEvent,
+  CommandContext,
+  GitHubIssue,
+  RunUsage,
+  StatusUpdate
+} from './types';
+import { getRunBudget } from './config';
+import { ConfigWatcher } from './config-watcher';
 import { logger } from './logger';
 import { StateManager } from './state-manager';
 import { ContainerManager } from './container-manager';
 import { GitHubClient } from './github-client';
 import { WebhookServer } from './webhooks';
 import { GitHubPoller } from './poller';
+import { StateStore, createStateStore } from './state-store';
+import { Reconciler } from './reconciler';
+import { WorkQueue } from './work-queue';
+import { UsageLedger } from './usage-ledger';
+import { ArtifactStore } from './artifact-store';
+import { RepoSettingsLoader, RepoSettingsResult, describeRepoSettingsErrors } from './repo-settings';
+import { describeAgentEvent } from './agent-events';
+import { AgentAuth } from './agent-auth';
+import { CommandChannel } from './command-channel';
+import { CommandParser } from './commands';
+import { Authorizer } from './authorizer';
+import { Identity } from './identity';
+import { GitHubTokenProvider, ScopedToken, createTokenProvider } from './github-auth';
+import { SecretsBroker } from './secrets-broker';
+import { addSecret } from './redact';
 
 // Load environment variables
 // .env.local overrides .env (useful for local development)
@@ -22,52 +47,103 @@ dotenv.config({ path: '.env.local', override: true });
 const USE_POLLING = process.env.USE_POLLING !== 'false';
 const POLL_INTERVAL_SECONDS = parseInt(process.env.POLL_INTERVAL_SECONDS || '60', 10);
 
+// How long past its runtime budget an agent gets to wind down before it is killed
+const BUDGET_GRACE_MINUTES = 5;
+
+// Set up once at startup, so changes to these config sections need a restart
+const RESTART_ONLY_SECTIONS = ['github', 'server', 'state', 'artifacts'] as const;
+
 export class Orchestrator {
   private config: OrchestratorConfig;
+  private configWatcher: ConfigWatcher;
+  private store: StateStore;
   private stateManager: StateManager;
+  private workQueue: WorkQueue;
+  private usageLedger: UsageLedger;
+  private artifacts: ArtifactStore;
+  private commandChannel: CommandChannel;
   private containerManager: ContainerManager;
   private githubClient: GitHubClient;
-  private webhookServer?: WebhookServer;
+  private repoSettings: RepoSettingsLoader;
+  private authorizer: Authorizer;
+  private identity: Identity;
+  private tokens: GitHubTokenProvider;
+  private secretsBroker: SecretsBroker;
+  private webhookServer: WebhookServer;
   private poller?: GitHubPoller;
   private healthCheckInterval?: NodeJS.Timeout;
   private cleanupInterval?: NodeJS.Timeout;
   private usePolling: boolean;
+  private dispatching: boolean = false;
 
   constructor(configPath?: string, usePolling: boolean = USE_POLLING) {
-    this.config = loadConfigWithDefaults(configPath);
+    this.configWatcher = new ConfigWatcher(configPath, config => this.applyConfig(config));
+    this.config = this.configWatcher.load();
     this.usePolling = usePolling;
 
     // Initialize components
-    this.stateManager = new StateManager(this.config);
-    this.containerManager = new ContainerManager(this.config);
+    this.store = createStateStore(this.config.state);
+    this.stateManager = new StateManager(this.config, this.store);
+    this.workQueue = new WorkQueue(this.store);
+    this.usageLedger = new UsageLedger(this.store);
+    this.artifacts = new ArtifactStore(this.config.artifacts.dir);
+    this.commandChannel = new CommandChannel();
+    const agentAuth = new AgentAuth(this.config.server.agentSecret);
+    this.tokens = createTokenProvider(this.config);
     this.githubClient = new GitHubClient(
-      this.config.github.token,
+      this.tokens,
       this.config.github.webhookSecret
     );
+    this.repoSettings = new RepoSettingsLoader(this.githubClient, this.config);
+    this.identity = new Identity(this.githubClient);
+    this.authorizer = new Authorizer(this.githubClient);
+    this.secretsBroker = new SecretsBroker(this.config);
+    this.containerManager = new ContainerManager(
+      this.config,
+      agentAuth,
+      this.identity,
+      this.tokens,
+      this.secretsBroker
+    );
 
     // Create handlers object
     const handlers = {
-      onIssueTriggered: this.handleIssueTriggered.bind(this),
+      onCommand: this.handleCommand.bind(this),
       onPRClosed: this.handlePRClosed.bind(this),
-      onPRReview: this.handlePRReview.bind(this)
+      onPRReview: this.handlePRReview.bind(this),
+      onStatusUpdate: this.handleStatusUpdate.bind(this),
+      onGitHubTokenRequest: this.handleGitHubTokenRequest.bind(this),
+      onAgentEvents: this.handleAgentEvents.bind(this),
+      onTranscript: this.handleTranscript.bind(this),
+      onStats: this.getStats.bind(this)
     };
 
-    // Initialize either webhook server or poller based on mode
+    // Initialize the poller in polling mode; the HTTP server runs in both modes
+    // so agents can always report status, but only accepts webhooks in webhook mode
     if (this.usePolling) {
       logger.info('Initializing in POLLING mode - no webhook required');
       this.poller = new GitHubPoller(
         this.config,
         handlers,
-        POLL_INTERVAL_SECONDS
+        this.identity,
+        this.tokens,
+        POLL_INTERVAL_SECONDS,
+        this.store
       );
     } else {
       logger.info('Initializing in WEBHOOK mode - configure GitHub webhooks');
-      this.webhookServer = new WebhookServer(
-        this.githubClient,
-        this.config,
-        handlers
-      );
     }
+
+    this.webhookServer = new WebhookServer(
+      this.githubClient,
+      this.config,
+      handlers,
+      agentAuth,
+      this.commandChannel,
+      this.identity,
+      this.secretsBroker,
+      { webhooks: !this.usePolling }
+    );
   }
 
   /**
@@ -78,15 +154,40 @@ export class Orchestrator {
     logger.info(`Max concurrent agents: ${this.config.containers.maxConcurrent}`);
     logger.info(`Watching ${this.config.repos.length} repositories`);
 
-    // Start either webhook server or poller
-    if (this.usePolling) {
-      if (this.poller) {
-        this.poller.start();
-      }
-    } else {
-      if (this.webhookServer) {
-        await this.webhookServer.start();
-      }
+    // Learn which GitHub account we act as, so we never respond to ourselves
+    await this.identity.init();
+
+    // Rehydrate state from the durable store
+    await this.store.init();
+    const restored = await this.stateManager.restore();
+    logger.info(`Restored ${restored} active issues from ${this.config.state.driver} state store`);
+    await this.usageLedger.restore();
+
+    // Re-attach to agent containers launched before this process started
+    try {
+      const reconciler = new Reconciler(
+        this.config,
+        this.stateManager,
+        this.containerManager,
+        this.githubClient
+      );
+      await reconciler.reconcile();
+    } catch (error) {
+      logger.error('Container reconciliation failed, continuing with restored state', { error });
+    }
+
+    // Restore the queue and fill any free slots
+    const queued = await this.workQueue.restore();
+    logger.info(`Restored ${queued} queued issues`);
+    await this.dispatchQueue();
+
+    // Start the HTTP server (webhooks and agent status API)
+    await this.webhookServer.start();
+
+    // Start the poller in polling mode
+    if (this.poller) {
+      await this.poller.restore();
+      this.poller.start();
     }
 
     // Start health check loop for containers
@@ -95,13 +196,318 @@ export class Orchestrator {
     // Start periodic cleanup
     this.startCleanupLoop();
 
+    // Pick up config changes without a restart
+    this.configWatcher.start();
+
     logger.info('Orchestrator started successfully');
   }
 
   /**
-   * Handle a triggered issue
+   * Reload the configuration now (e.g. on SIGHUP). Returns whether a new one was applied.
+   */
+  reloadConfig(): boolean {
+    return this.configWatcher.reload();
+  }
+
+  /**
+   * Swap a reloaded (and already validated) configuration into every component.
+   * Running agents keep the settings they were started with.
+   */
+  private applyConfig(next: OrchestratorConfig): void {
+    const restartOnly = RESTART_ONLY_SECTIONS.filter(
+      section => JSON.stringify(next[section]) !== JSON.stringify(this.config[section])
+    );
+    if (restartOnly.length > 0) {
+      logger.warn(`Changes to ${restartOnly.join(', ')} settings take effect after a restart`);
+    }
+
+    const config: OrchestratorConfig = {
+      ...next,
+      github: this.config.github,
+      server: this.config.server,
+      state: this.config.state,
+      artifacts: this.config.artifacts
+    };
+    addSecret(config.claude.apiKey);
+
+    const repoKeys = (c: OrchestratorConfig) => c.repos.filter(r => r.enabled).map(r => `${r.owner}/${r.name}`);
+    const before = repoKeys(this.config);
+    const after = repoKeys(config);
+    const added = after.filter(key => !before.includes(key));
+    const removed = before.filter(key => !after.includes(key));
+
+    // Synchronous, so no event is handled with a mix of old and new settings
+    this.config = config;
+    this.stateManager.updateConfig(config);
+    this.containerManager.updateConfig(config);
+    this.repoSettings.updateConfig(config);
+    this.webhookServer.updateConfig(config);
+    this.poller?.updateConfig(config);
+
+    logger.info(`Configuration reloaded, watching ${after.length} repositories`, { added, removed });
+
+    // Agent limits may have been raised
+    void this.dispatchQueue();
+  }
+
+  /**
+   * Handle a command from an issue or PR comment (or an issue body)
+   */
+  private async handleCommand(context: CommandContext): Promise<void> {
+    const { issue, command, isPullRequest, commentId } = context;
+    const { owner, repo, number } = issue;
+    const repoConfig = this.githubClient.getRepoConfig(owner, repo, this.config.repos);
+    if (!repoConfig) {
+      return;
+    }
+
+    const target = isPullRequest ? 'pr' : 'issue';
+    const spec = CommandParser.getSpec(command.name);
+
+    if (!spec) {
+      await this.reply(issue, CommandParser.help(repoConfig, target, `Unknown command \`${command.verb}\`.`));
+      return;
+    }
+
+    if (!spec.targets.includes(target)) {
+      await this.reply(issue, CommandParser.help(
+        repoConfig,
+        target,
+        `\`${command.name}\` can't be used on ${isPullRequest ? 'a pull request' : 'an issue'}.`
+      ));
+      return;
+    }
+
+    logger.info(`Command "${command.name}" from @${context.author} on ${owner}/${repo}#${number}`, { args: command.args });
+
+    // Anything beyond read-only commands spends agent time, so it needs authorization
+    if (command.name !== 'help' && command.name !== 'status') {
+      const authorization = await this.authorizer.authorize(context.author, repoConfig);
+      if (!authorization.allowed) {
+        logger.warn(`Rejected "${command.name}" from @${context.author} on ${owner}/${repo}#${number}: ${authorization.reason}`);
+        await this.reply(issue,
+          `👋 Thanks @${context.author}, but you don't have permission to run agent commands on this repository. ` +
+          'Please ask a maintainer to trigger the agent for you.');
+        return;
+      }
+    }
+
+    // Acknowledge commands given in comments
+    if (commentId && command.name !== 'take' && command.name !== 'use' && command.name !== 'retry') {
+      await this.githubClient.addReaction(owner, repo, commentId, 'eyes');
+    }
+
+    const template = command.args.template;
+    if (template && !this.config.claude.prompts?.[template]) {
+      const available = Object.keys(this.config.claude.prompts || {}).filter(name => name !== 'reviewFeedback');
+      await this.reply(issue, `⚠️ Unknown prompt template \`${template}\`. Available templates: ` +
+        (available.length > 0 ? available.map(name => `\`${name}\``).join(', ') : 'none'));
+      return;
+    }
+
+    switch (command.name) {
+      case 'take':
+        await this.handleIssueTriggered(issue, commentId, template, context.author);
+        break;
+
+      case 'use':
+        if (!template) {
+          await this.reply(issue, CommandParser.help(repoConfig, target, '`use` needs a template, e.g. `use template=strict`.'));
+          break;
+        }
+        await this.handleIssueTriggered(issue, commentId, template, context.author);
+        break;
+
+      case 'retry': {
+        const agent = this.findAgent(context);
+        if (agent) {
+          await this.reply(issue, `🔄 An agent is still working on this issue (status: \`${agent.status}\`). ` +
+            'Stop it first if you want to start over.');
+          break;
+        }
+        await this.handleIssueTriggered(issue, commentId, template, context.author);
+        break;
+      }
+
+      case 'stop':
+        await this.stopAgent(context);
+        break;
+
+      case 'status':
+        await this.reply(issue, this.describeStatus(context));
+        break;
+
+      case 'rebase':
+        await this.sendToAgent(context, { type: 'rebase', base: command.args.base }, '🔁 Asked the agent to rebase its branch.');
+        break;
+
+      case 'iterate':
+        await this.sendToAgent(context, {
+          type: 'feedback',
+          reviewer: context.author,
+          body: command.text || 'Please address the open review comments.'
+        }, '📝 Asked the agent to address the open review comments.');
+        break;
+
+      case 'help':
+        await this.reply(issue, CommandParser.help(repoConfig, target));
+        break;
+    }
+  }
+
+  /**
+   * Find the active agent for the issue or PR a command was posted on
+   */
+  private findAgent(context: CommandContext): ActiveIssue | undefined {
+    const { owner, repo, number } = context.issue;
+
+    if (!context.isPullRequest) {
+      return this.stateManager.getIssue(owner, repo, number);
+    }
+
+    return this.findAgentForPR(owner, repo, number);
+  }
+
+  /**
+   * The agent working on a PR (PR numbers are only unique within a repo)
+   */
+  private findAgentForPR(owner: string, repo: string, prNumber: number): ActiveIssue | undefined {
+    return this.stateManager.getAllActive().find(i =>
+      i.repoOwner.toLowerCase() === owner.toLowerCase() &&
+      i.repoName.toLowerCase() === repo.toLowerCase() &&
+      i.prNumber === prNumber
+    );
+  }
+
+  /**
+   * Push a command to the agent working on an issue or PR
    */
-  private async handleIssueTriggered(issue: any, commentId: number): Promise<void> {
+  private async sendToAgent(context: CommandContext, command: AgentCommand, acknowledgement: string): Promise<void> {
+    const agent = this.findAgent(context);
+    if (!agent) {
+      await this.reply(context.issue, 'ℹ️ No agent is working on this right now.');
+      return;
+    }
+
+    if (command.type === 'feedback') {
+      this.stateManager.updateIssueStatus(agent.repoOwner, agent.repoName, agent.issueNumber, 'iterating');
+    }
+
+    this.commandChannel.send(agent.containerName, command);
+    await this.reply(context.issue, acknowledgement);
+  }
+
+  /**
+   * Stop the agent working on an issue or PR, or take the issue off the queue
+   */
+  private async stopAgent(context: CommandContext): Promise<void> {
+    const { owner, repo, number } = context.issue;
+    const agent = this.findAgent(context);
+
+    if (!agent) {
+      const queued = context.isPullRequest ? undefined : this.workQueue.remove(owner, repo, number);
+      if (queued) {
+        if (queued.statusCommentId) {
+          await this.githubClient.updateIssueComment(owner, repo, queued.statusCommentId, '🛑 Removed from the queue.')
+            .catch(error => logger.warn(`Failed to update queue comment on ${owner}/${repo}#${number}`, { error }));
+        }
+        await this.reply(context.issue, `🛑 Removed from the queue by @${context.author}.`);
+        await this.dispatchQueue();
+        return;
+      }
+
+      await this.reply(context.issue, 'ℹ️ No agent is working on this right now.');
+      return;
+    }
+
+    const reason = `Stopped by @${context.author}`;
+
+    // Once the PR is open the agent is polling for commands and can shut down cleanly;
+    // before that it isn't listening, so the container is removed directly
+    if (agent.prNumber) {
+      this.commandChannel.send(agent.containerName, { type: 'abort', reason });
+      await this.reply(context.issue, `🛑 ${reason}. The agent will stop shortly.`);
+      return;
+    }
+
+    try {
+      if (agent.containerId) {
+        await this.containerManager.removeContainer(agent.containerId);
+      }
+    } catch (error) {
+      logger.error(`Failed to remove container ${agent.containerId}`, { error });
+    }
+
+    this.stateManager.removeIssue(agent.repoOwner, agent.repoName, agent.issueNumber);
+    this.commandChannel.close(agent.containerName);
+    await this.reply(context.issue, `🛑 ${reason}. The agent has been stopped.`);
+
+    // A slot has been freed
+    await this.dispatchQueue();
+  }
+
+  /**
+   * Describe the agent's state for the `status` command
+   */
+  private describeStatus(context: CommandContext): string {
+    const { owner, repo, number } = context.issue;
+    const agent = this.findAgent(context);
+
+    if (agent) {
+      const lines = [
+        `**Agent status:** \`${agent.status}\``,
+        `- Branch: \`${agent.branchName}\``,
+        `- Started: ${agent.startedAt.toISOString()}`
+      ];
+      if (agent.prNumber) {
+        lines.push(`- Pull request: #${agent.prNumber}`);
+      }
+      if (agent.promptTemplate) {
+        lines.push(`- Prompt template: \`${agent.promptTemplate}\``);
+      }
+      if (agent.lastHeartbeat) {
+        lines.push(`- Last heartbeat: ${agent.lastHeartbeat.toISOString()}`);
+      }
+      if (agent.lastActivity) {
+        lines.push(`- Last activity: \`${agent.lastActivity.replace(/`/g, "'")}\``);
+      }
+      if (agent.usage) {
+        lines.push(`- This run: ${UsageLedger.format(agent.usage).replace('💰 Cost: ', '')}`);
+      }
+      if (agent.error) {
+        lines.push(`- Last error: ${agent.error}`);
+      }
+      return lines.join('\n');
+    }
+
+    const position = context.isPullRequest ? 0 : this.workQueue.getPosition(owner, repo, number);
+    if (position > 0) {
+      return `🕐 Waiting for an agent slot. Queue position: #${position} of ${this.workQueue.size}.`;
+    }
+
+    return 'ℹ️ No agent is working on this right now.';
+  }
+
+  /**
+   * Post a reply on the issue or PR a command came from
+   */
+  private async reply(issue: GitHubIssue, body: string): Promise<void> {
+    try {
+      await this.githubClient.postIssueComment(issue.owner, issue.repo, issue.number, body);
+    } catch (error) {
+      logger.error(`Failed to reply on ${issue.owner}/${issue.repo}#${issue.number}`, { error });
+    }
+  }
+
+  /**
+   * Handle a request to start an agent on an issue
+   */
+  private async handleIssueTriggered(
+    issue: GitHubIssue,
+    commentId: number,
+    promptTemplate?: string,
+    triggerAuthor?: string
+  ): Promise<void> {
     const { owner, repo, number } = issue;
 
     // Check if issue is already being handled
@@ -116,19 +522,53 @@ export class Orchestrator {
       return;
     }
 
-    // Check if we can start a new agent
-    if (!this.stateManager.canStartNew()) {
-      const queuePos = this.stateManager.getQueuePosition();
-      await this.githubClient.postIssueComment(
-        owner,
-        repo,
-        number,
-        `🕐 All agent slots are full. Queue position: #${queuePos}. An agent will start when a slot becomes available.`
-      );
-      logger.info(`Queue full: Issue ${owner}/${repo}#${number} at position ${queuePos}`);
+    // Check if issue is already waiting for a slot
+    const existingPosition = this.workQueue.getPosition(owner, repo, number);
+    if (existingPosition > 0) {
+      logger.info(`Issue ${owner}/${repo}#${number} is already queued at position ${existingPosition}`);
       return;
     }
 
+    // Queue the issue if all slots are taken, or its repo or owner is at its cap
+    const blockReason = this.stateManager.getBlockReason(owner, repo);
+    if (blockReason) {
+      const repoConfig = this.githubClient.getRepoConfig(owner, repo, this.config.repos);
+      const queuePos = this.workQueue.enqueue(issue, commentId, repoConfig?.priority || 0, promptTemplate, triggerAuthor);
+      logger.info(`Queued issue ${owner}/${repo}#${number} at position ${queuePos}: ${blockReason}`);
+
+      try {
+        const statusCommentId = await this.githubClient.postIssueComment(
+          owner,
+          repo,
+          number,
+          this.buildQueueComment(queuePos, blockReason)
+        );
+        // The queue may have changed while the comment was posted; if the issue has
+        // already been dispatched or removed there is nothing to update
+        const item = this.workQueue.find(owner, repo, number);
+        if (item) {
+          this.workQueue.updateStatusComment(item, statusCommentId, queuePos);
+        }
+      } catch (error) {
+        logger.error(`Failed to post queue comment on ${owner}/${repo}#${number}`, { error });
+      }
+      return;
+    }
+
+    await this.startAgent(issue, commentId, promptTemplate, triggerAuthor);
+  }
+
+  /**
+   * Start an agent container for an issue (a slot must be available)
+   */
+  private async startAgent(
+    issue: GitHubIssue,
+    commentId: number,
+    promptTemplate?: string,
+    triggerAuthor?: string
+  ): Promise<void> {
+    const { owner, repo, number } = issue;
+
     // Create active issue record
     const branchName = `ai-agent-issue-${number}-${Date.now()}`;
     const activeIssue: ActiveIssue = {
@@ -141,12 +581,20 @@ export class Orchestrator {
       containerName: '',
       status: 'starting',
       branchName,
+      promptTemplate,
+      triggerAuthor,
       startedAt: new Date()
     };
 
     try {
-      // Acknowledge the trigger
-      await this.githubClient.addReaction(owner, repo, commentId, 'rocket');
+      // Acknowledge the trigger (commands in an issue body have no comment to react to)
+      if (commentId) {
+        await this.githubClient.addReaction(owner, repo, commentId, 'rocket');
+      }
+
+      // Apply the repo's own settings file, if it has a valid one
+      const settings = await this.loadRepoSettings(issue);
+      activeIssue.repoSettings = settings.settings;
 
       // Post initial comment
       await this.githubClient.postIssueComment(
@@ -155,19 +603,21 @@ export class Orchestrator {
         number,
         `🚀 Starting agent for this issue...\n\n` +
         `- Branch: \`${branchName}\`\n` +
+        (promptTemplate ? `- Prompt template: \`${promptTemplate}\`\n` : '') +
+        (settings.settings ? `- Settings: \`${settings.path}\`\n` : '') +
         `- Status: Initializing container`
       );
 
       // Start the container
       logger.info(`Starting container for ${owner}/${repo}#${number}`);
-      const containerId = await this.containerManager.startAgentContainer(activeIssue);
+      const container = await this.containerManager.startAgentContainer(activeIssue);
 
       // Update active issue with container info
-      activeIssue.containerId = containerId;
-      activeIssue.containerName = `agent-${owner}-${repo}-issue-${number}`;
+      activeIssue.containerId = container.id;
+      activeIssue.containerName = container.name;
       this.stateManager.registerIssue(activeIssue);
 
-      logger.info(`Agent container started: ${containerId}`);
+      logger.info(`Agent container started: ${container.id}`);
     } catch (error) {
       logger.error(`Failed to start agent for ${owner}/${repo}#${number}`, { error });
 
@@ -180,13 +630,111 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Fetch the repo's .autogas.yml. Errors are explained on the issue and the file is
+   * ignored; a file that can't be fetched is ignored too, so the run goes ahead either way.
+   */
+  private async loadRepoSettings(issue: GitHubIssue): Promise<RepoSettingsResult> {
+    const { owner, repo, number } = issue;
+
+    let result: RepoSettingsResult;
+    try {
+      result = await this.repoSettings.load(owner, repo);
+    } catch (error) {
+      logger.warn(`Failed to fetch repo settings for ${owner}/${repo}`, { error: String(error) });
+      return { errors: [] };
+    }
+
+    if (result.path && result.errors.length > 0) {
+      logger.warn(`Ignoring invalid ${result.path} in ${owner}/${repo}`, { errors: result.errors });
+      await this.githubClient.postIssueComment(owner, repo, number, describeRepoSettingsErrors(result.path, result.errors));
+    } else if (result.settings) {
+      logger.info(`Using ${result.path} from ${owner}/${repo}`, { settings: result.settings });
+    }
+    return result;
+  }
+
+  /**
+   * Start queued issues while slots are available, then refresh the
+   * queue-position comments of everything still waiting
+   */
+  private async dispatchQueue(): Promise<void> {
+    if (this.dispatching) {
+      return;
+    }
+    this.dispatching = true;
+
+    try {
+      while (this.workQueue.size > 0 && this.stateManager.canStartNew()) {
+        // Round-robin across repos, skipping any at their repo or owner cap
+        const item = this.workQueue.dequeue(
+          queued => this.stateManager.canStartNew(queued.issue.owner, queued.issue.repo)
+        );
+        if (!item) {
+          break;
+        }
+        const { owner, repo, number } = item.issue;
+
+        if (this.stateManager.isIssueActive(owner, repo, number)) {
+          continue;
+        }
+
+        logger.info(`Dispatching queued issue ${owner}/${repo}#${number}`);
+
+        if (item.statusCommentId) {
+          await this.githubClient.updateIssueComment(
+            owner,
+            repo,
+            item.statusCommentId,
+            '✅ An agent slot became available. Starting agent...'
+          ).catch(error => logger.warn(`Failed to update queue comment on ${owner}/${repo}#${number}`, { error }));
+        }
+
+        await this.startAgent(item.issue, item.triggerCommentId, item.promptTemplate, item.triggerAuthor);
+      }
+
+      // Update queue-position comments for issues that moved up
+      const remaining = this.workQueue.getAll();
+      for (let i = 0; i < remaining.length; i++) {
+        const item = remaining[i];
+        const position = i + 1;
+        if (!item.statusCommentId || item.position === position) {
+          continue;
+        }
+
+        try {
+          await this.githubClient.updateIssueComment(
+            item.issue.owner,
+            item.issue.repo,
+            item.statusCommentId,
+            this.buildQueueComment(position)
+          );
+          this.workQueue.updateStatusComment(item, item.statusCommentId, position);
+        } catch (error) {
+          logger.warn(`Failed to update queue comment on ${item.issue.owner}/${item.issue.repo}#${item.issue.number}`, { error });
+        }
+      }
+    } catch (error) {
+      logger.error('Error dispatching queued issues', { error });
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Build the comment shown on a queued issue
+   */
+  private buildQueueComment(position: number, reason?: string): string {
+    const why = reason ? `Waiting for an agent slot (${reason}).` : 'Waiting for an agent slot.';
+    return `🕐 ${why} Queue position: #${position}. An agent will start when a slot becomes available.`;
+  }
+
   /**
    * Handle PR closed event
    */
   private async handlePRClosed(owner: string, repo: string, prNumber: number): Promise<void> {
     // Find the issue associated with this PR
-    const activeIssues = this.stateManager.getAllActive();
-    const issue = activeIssues.find(i => i.prNumber === prNumber);
+    const issue = this.findAgentForPR(owner, repo, prNumber);
 
     if (!issue) {
       logger.debug(`No active issue found for PR ${owner}/${repo}#${prNumber}`);
@@ -203,17 +751,22 @@ export class Orchestrator {
 
       // Remove from state
       this.stateManager.removeIssue(issue.repoOwner, issue.repoName, issue.issueNumber);
+      this.commandChannel.close(issue.containerName);
 
       // Post final comment
       await this.githubClient.postIssueComment(
         owner,
         repo,
         issue.issueNumber,
-        `✅ Agent completed for this issue. PR #${prNumber} has been closed and container cleaned up.`
+        `✅ Agent completed for this issue. PR #${prNumber} has been closed and container cleaned up.\n\n` +
+        this.describeUsage(issue)
       );
     } catch (error) {
       logger.error(`Failed to cleanup agent for ${owner}/${repo}#${issue.issueNumber}`, { error });
     }
+
+    // A slot has been freed
+    await this.dispatchQueue();
   }
 
   /**
@@ -226,15 +779,31 @@ export class Orchestrator {
     review: any
   ): Promise<void> {
     // Find the issue associated with this PR
-    const activeIssues = this.stateManager.getAllActive();
-    const issue = activeIssues.find(i => i.prNumber === prNumber);
+    const issue = this.findAgentForPR(owner, repo, prNumber);
 
     if (!issue) {
       logger.debug(`No active issue found for PR ${owner}/${repo}#${prNumber}`);
       return;
     }
 
-    if (review.state === 'CHANGES_REQUESTED') {
+    const state = String(review.state).toUpperCase();
+    if (state !== 'CHANGES_REQUESTED' && state !== 'APPROVED') {
+      return;
+    }
+
+    // Feedback spends agent time and an approval ends the run, so reviewers need the
+    // same authorization as anyone giving the agent commands
+    const reviewer = review.user?.login || 'unknown';
+    const repoConfig = this.githubClient.getRepoConfig(owner, repo, this.config.repos);
+    const authorization = repoConfig
+      ? await this.authorizer.authorize(reviewer, repoConfig)
+      : { allowed: false, reason: 'repository is not configured' };
+    if (!authorization.allowed) {
+      logger.warn(`Ignoring review from @${reviewer} on ${owner}/${repo}#${prNumber}: ${authorization.reason}`);
+      return;
+    }
+
+    if (state === 'CHANGES_REQUESTED') {
       logger.info(`Changes requested on PR ${prNumber}, signaling agent to iterate`);
 
       // Update issue status
@@ -245,15 +814,193 @@ export class Orchestrator {
         'iterating'
       );
 
-      // Send signal to container (could use Docker exec or shared volume)
-      // For now, we'll post a comment that the agent can poll for
+      // Push the feedback straight to the agent
+      this.commandChannel.send(issue.containerName, {
+        type: 'feedback',
+        reviewId: review.id,
+        reviewer,
+        body: review.body
+      });
+
       await this.githubClient.postIssueComment(
         owner,
         repo,
         issue.issueNumber,
         `📝 Feedback received:\n\n${review.body}\n\nAgent will iterate on the changes.`
       );
+    } else if (state === 'APPROVED') {
+      // Nothing left to iterate on; let the agent exit and free its slot
+      logger.info(`PR ${prNumber} approved, signaling agent to finish`);
+      this.commandChannel.send(issue.containerName, {
+        type: 'approved',
+        reviewer
+      });
+    }
+  }
+
+  /**
+   * Handle a status report from an agent container
+   */
+  private async handleStatusUpdate(update: StatusUpdate): Promise<boolean> {
+    const issue = this.stateManager.getIssueByContainerId(update.containerId);
+
+    if (!issue) {
+      logger.warn(`Status update from unknown container ${update.containerId}`);
+      return false;
+    }
+
+    const previousStatus = issue.status;
+    const updates: Partial<ActiveIssue> = {};
+
+    // Agents send their running Claude usage totals with every update, heartbeats included
+    const usage = this.parseUsage(update.details.usage);
+    if (usage) {
+      this.usageLedger.record(this.getIssueKey(issue), issue.usage, usage);
+      updates.usage = usage;
+    }
+
+    // Heartbeats only refresh lastHeartbeat (and usage)
+    if (update.status === 'heartbeat') {
+      this.stateManager.updateIssueByContainerId(update.containerId, updates);
+      return true;
+    }
+
+    updates.status = update.status;
+    if (update.status === 'error' || update.status === 'budget_exceeded') {
+      updates.error = update.message;
+    }
+    this.stateManager.updateIssueByContainerId(update.containerId, updates);
+
+    // The agent stopped itself on a budget; say which one
+    if (update.status === 'budget_exceeded' && previousStatus !== 'budget_exceeded') {
+      await this.githubClient.postIssueComment(
+        issue.repoOwner,
+        issue.repoName,
+        issue.issueNumber,
+        `⛔ Agent stopped: ${update.message}\n\n` +
+        `Raise the repo's \`budget\` in the orchestrator config or trigger the agent again to continue.\n\n` +
+        this.describeUsage(issue)
+      ).catch(error => logger.error('Failed to post budget comment', { error }));
+    }
+
+    // Link the PR once the agent has opened it
+    const prNumber = Number(update.details.pr_number);
+    if (update.status === 'pr_created' && Number.isInteger(prNumber) && prNumber > 0) {
+      this.stateManager.setPRNumber(issue.repoOwner, issue.repoName, issue.issueNumber, prNumber);
+      logger.info(`Agent opened PR #${prNumber} for ${issue.repoOwner}/${issue.repoName}#${issue.issueNumber}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Log the Claude Code events an agent forwarded and remember its latest activity
+   */
+  private handleAgentEvents(containerId: string, events: AgentEvent[], dropped: number): boolean {
+    const issue = this.stateManager.getIssueByContainerId(containerId);
+    if (!issue) {
+      logger.warn(`Claude events from unknown container ${containerId}`);
+      return false;
+    }
+
+    const key = this.getIssueKey(issue);
+    if (dropped > 0) {
+      logger.warn(`${key}: agent dropped ${dropped} Claude events it could not deliver`);
+    }
+
+    let lastActivity: string | undefined;
+    for (const event of events) {
+      const description = describeAgentEvent(event);
+      if (event.type === 'text') {
+        logger.debug(`[${key}] ${description}`);
+      } else {
+        logger.info(`[${key}] ${description}`);
+        lastActivity = event.type === 'result' ? lastActivity : description;
+      }
+    }
+
+    if (lastActivity) {
+      this.stateManager.updateIssueByContainerId(containerId, { lastActivity });
+    }
+    return true;
+  }
+
+  /**
+   * Keep the Claude Code transcript an agent uploaded
+   */
+  private async handleTranscript(containerId: string, content: string): Promise<boolean> {
+    const issue = this.stateManager.getIssueByContainerId(containerId);
+    if (!issue) {
+      logger.warn(`Transcript from unknown container ${containerId}`);
+      return false;
+    }
+
+    const file = await this.artifacts.saveTranscript(issue, content);
+    logger.info(`Stored transcript for ${this.getIssueKey(issue)} at ${file}`);
+    return true;
+  }
+
+  /**
+   * Read the usage totals from a status update's details
+   */
+  private parseUsage(usage: any): RunUsage | undefined {
+    if (!usage || typeof usage !== 'object') {
+      return undefined;
+    }
+
+    const values = [usage.input_tokens, usage.output_tokens, usage.cost_usd, usage.invocations];
+    if (!values.every(value => typeof value === 'number' && value >= 0)) {
+      return undefined;
+    }
+
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      costUsd: usage.cost_usd,
+      invocations: usage.invocations
+    };
+  }
+
+  /**
+   * What an issue has cost so far, across all its runs, for issue comments
+   */
+  private describeUsage(issue: ActiveIssue): string {
+    const total = this.usageLedger.getIssueTotal(this.getIssueKey(issue));
+    return total.invocations > 0 ? UsageLedger.format(total) : '';
+  }
+
+  private getIssueKey(issue: ActiveIssue): string {
+    return `${issue.repoOwner}/${issue.repoName}#${issue.issueNumber}`;
+  }
+
+  /**
+   * Agent slots, queue and Claude usage for the stats API
+   */
+  private getStats(days?: number): Record<string, any> {
+    return {
+      agents: this.stateManager.getStats(),
+      queue: {
+        size: this.workQueue.size,
+        byRepo: this.workQueue.countByRepo()
+      },
+      usage: this.usageLedger.getStats(days)
+    };
+  }
+
+  /**
+   * Issue a fresh GitHub token to an agent container, scoped to its repository
+   */
+  private async handleGitHubTokenRequest(containerId: string): Promise<ScopedToken | null> {
+    const issue = this.stateManager.getIssueByContainerId(containerId);
+
+    if (!issue) {
+      logger.warn(`GitHub token requested by unknown container ${containerId}`);
+      return null;
     }
+
+    const token = await this.tokens.getAgentToken(issue.repoOwner, issue.repoName);
+    this.secretsBroker.track(token);
+    return token;
   }
 
   /**
@@ -261,50 +1008,146 @@ export class Orchestrator {
    */
   private startHealthCheckLoop(): void {
     this.healthCheckInterval = setInterval(async () => {
-      const staleIssues = this.stateManager.getStaleIssues();
+      await this.checkContainers();
 
-      for (const issue of staleIssues) {
-        logger.warn(`Stale container detected: ${issue.containerId} for ${issue.repoOwner}/${issue.repoName}#${issue.issueNumber}`);
+      // Log stats
+      const stats = this.stateManager.getStats();
+      logger.debug('Agent stats', { ...stats, queued: this.workQueue.size, queuedByRepo: this.workQueue.countByRepo() });
+    }, 30 * 1000); // Every 30 seconds
+  }
 
-        // Check if container is still running
-        try {
-          const status = await this.containerManager.getContainerStatus(issue.containerId);
-
-          if (status === 'exited' || status === 'dead') {
-            logger.error(`Container ${issue.containerId} has ${status}`);
-
-            // Update status
-            this.stateManager.updateIssueStatus(
-              issue.repoOwner,
-              issue.repoName,
-              issue.issueNumber,
-              'error',
-              `Container terminated unexpectedly (status: ${status})`
-            );
-
-            // Get logs for debugging
-            const logs = await this.containerManager.getLogs(issue.containerId, 50);
-            logger.error(`Container logs:\n${logs}`);
-
-            // Notify on GitHub
-            await this.githubClient.postIssueComment(
-              issue.repoOwner,
-              issue.repoName,
-              issue.issueNumber,
-              `❌ Agent encountered an error and stopped.\n\n` +
-              `Container status: ${status}\n\n` +
-              `Please check the issue or try triggering the agent again.`
-            );
-          }
-        } catch (error) {
-          logger.error(`Error checking container ${issue.containerId}`, { error });
+  /**
+   * Check every active container: release slots held by exited containers, stop
+   * ones that overran their budget, and warn about running ones that stopped reporting
+   */
+  private async checkContainers(): Promise<void> {
+    const staleIds = new Set(this.stateManager.getStaleIssues().map(i => i.containerId));
+    let freedSlots = false;
+
+    for (const issue of this.stateManager.getAllActive()) {
+      if (!issue.containerId) {
+        continue;
+      }
+
+      try {
+        const status = await this.containerManager.getContainerStatus(issue.containerId);
+        const overrun = this.getBudgetOverrun(issue);
+
+        if (status === 'exited' || status === 'dead') {
+          await this.handleContainerExit(issue, status);
+          freedSlots = true;
+        } else if (overrun) {
+          await this.stopOverBudget(issue, overrun);
+          freedSlots = true;
+        } else if (staleIds.has(issue.containerId)) {
+          logger.warn(`Stale container detected: ${issue.containerId} for ${issue.repoOwner}/${issue.repoName}#${issue.issueNumber}`);
         }
+      } catch (error) {
+        logger.error(`Error checking container ${issue.containerId}`, { error });
       }
+    }
 
-      // Log stats
-      const stats = this.stateManager.getStats();
-      logger.debug('Agent stats', stats);
-    }, 30 * 1000); // Every 30 seconds
+    if (freedSlots) {
+      await this.dispatchQueue();
+    }
+  }
+
+  /**
+   * The budget a running agent has overrun and failed to stop for, if any.
+   * Agents enforce their own budgets; this catches ones that hang or ignore them.
+   */
+  private getBudgetOverrun(issue: ActiveIssue): string | undefined {
+    const repoConfig = this.githubClient.getRepoConfig(issue.repoOwner, issue.repoName, this.config.repos);
+    const budget = getRunBudget(this.config, repoConfig);
+    const runtimeMinutes = (Date.now() - issue.startedAt.getTime()) / 60000;
+
+    if (budget.maxRuntimeMinutes && runtimeMinutes > budget.maxRuntimeMinutes + BUDGET_GRACE_MINUTES) {
+      return `the runtime budget of ${budget.maxRuntimeMinutes} minutes was exhausted`;
+    }
+
+    // The agent checks usage after each Claude execution and exits; only step in if it didn't
+    if (issue.status === 'budget_exceeded' || !issue.usage) {
+      return undefined;
+    }
+    const tokens = issue.usage.inputTokens + issue.usage.outputTokens;
+    if (budget.maxTokens && tokens > budget.maxTokens) {
+      return `the token budget of ${budget.maxTokens} tokens was exhausted (${tokens} used)`;
+    }
+    if (budget.maxCostUsd && issue.usage.costUsd > budget.maxCostUsd) {
+      return `the spend budget of $${budget.maxCostUsd.toFixed(2)} was exhausted ($${issue.usage.costUsd.toFixed(2)} spent)`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Kill an agent that overran its budget, explain why on the issue and release its slot
+   */
+  private async stopOverBudget(issue: ActiveIssue, reason: string): Promise<void> {
+    const { repoOwner, repoName, issueNumber } = issue;
+    logger.warn(`Stopping ${issue.containerId} for ${repoOwner}/${repoName}#${issueNumber}: ${reason}`);
+
+    try {
+      await this.containerManager.removeContainer(issue.containerId);
+    } catch (error) {
+      logger.error(`Failed to stop over-budget container ${issue.containerId}`, { error });
+    }
+
+    await this.githubClient.postIssueComment(
+      repoOwner,
+      repoName,
+      issueNumber,
+      `⛔ Agent stopped by the orchestrator: ${reason}.\n\n` +
+      (issue.prNumber ? `The work so far is in #${issue.prNumber}. ` : '') +
+      `Raise the repo's \`budget\` in the orchestrator config or trigger the agent again to continue.\n\n` +
+      this.describeUsage(issue)
+    ).catch(error => logger.error('Failed to post budget comment', { error }));
+
+    this.stateManager.updateIssueStatus(repoOwner, repoName, issueNumber, 'budget_exceeded', reason);
+    this.stateManager.removeIssue(repoOwner, repoName, issueNumber);
+    this.commandChannel.close(issue.containerName);
+  }
+
+  /**
+   * Handle an agent container that has stopped: report it and release its slot
+   */
+  private async handleContainerExit(issue: ActiveIssue, status: string): Promise<void> {
+    const { repoOwner, repoName, issueNumber } = issue;
+
+    // Budget stops were already explained when the agent reported them
+    if (issue.status === 'done' || issue.status === 'aborted' || issue.status === 'budget_exceeded') {
+      logger.info(`Container ${issue.containerId} for ${repoOwner}/${repoName}#${issueNumber} finished (${issue.status})`);
+    } else {
+      logger.error(`Container ${issue.containerId} has ${status}`);
+
+      // Update status
+      this.stateManager.updateIssueStatus(
+        repoOwner,
+        repoName,
+        issueNumber,
+        'error',
+        `Container terminated unexpectedly (status: ${status})`
+      );
+
+      // Get logs for debugging
+      const logs = await this.containerManager.getLogs(issue.containerId, 50);
+      logger.error(`Container logs:\n${logs}`);
+
+      // Notify on GitHub
+      await this.githubClient.postIssueComment(
+        repoOwner,
+        repoName,
+        issueNumber,
+        `❌ Agent encountered an error and stopped.\n\n` +
+        `Container status: ${status}\n\n` +
+        `Please check the issue or try triggering the agent again.\n\n` +
+        this.describeUsage(issue)
+      );
+    }
+
+    // The stopped container itself is removed by the cleanup loop
+    this.stateManager.removeIssue(repoOwner, repoName, issueNumber);
+    this.commandChannel.close(issue.containerName);
   }
 
   /**
@@ -342,18 +1185,17 @@ export class Orchestrator {
       this.poller.stop();
     }
 
-    // Optionally, stop all running containers
+    this.configWatcher.stop();
+
+    // Agent containers are left running: their state is persisted and
+    // will be picked up again on the next start
     const activeIssues = this.stateManager.getAllActive();
-    for (const issue of activeIssues) {
-      if (issue.containerId) {
-        try {
-          await this.containerManager.removeContainer(issue.containerId);
-        } catch (error) {
-          logger.error(`Failed to stop container ${issue.containerId}`, { error });
-        }
-      }
+    if (activeIssues.length > 0) {
+      logger.info(`Leaving ${activeIssues.length} agent containers running`);
     }
 
+    await this.store.close();
+
     logger.info('Orchestrator stopped');
   }
 }
@@ -379,6 +1221,12 @@ if (require.main === module) {
     await orchestrator.stop();
     process.exit(0);
   });
+
+  // Reload the configuration on demand; an invalid one is rejected and logged
+  process.on('SIGHUP', () => {
+    logger.info('Received SIGHUP, reloading configuration...');
+    orchestrator.reloadConfig();
+  });
 }
 
 export * from './types';
@@ -3,6 +3,7 @@
  */
 
 import winston from 'winston';
+import { redact } from './redact';
 
 const logFormat = winston.format.combine(
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
@@ -13,7 +14,7 @@ const logFormat = winston.format.combine(
     if (Object.keys(metadata).length > 0) {
       msg += ` ${JSON.stringify(metadata)}`;
     }
-    return msg;
+    return redact(msg);
   })
 );
 
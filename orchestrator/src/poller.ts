@@ -5,7 +5,11 @@
  */
 
 import { Octokit } from 'octokit';
-import { OrchestratorConfig, RepoConfig } from './types';
+import { CommandContext, GitHubIssue, OrchestratorConfig, RepoConfig } from './types';
+import { CommandParser } from './commands';
+import { Identity } from './identity';
+import { GitHubTokenProvider, createOctokit } from './github-auth';
+import { MemoryStateStore, StateStore } from './state-store';
 import { logger } from './logger';
 
 // GitHub API rate limit: 5000 requests/hour for authenticated requests
@@ -14,11 +18,11 @@ import { logger } from './logger';
 // - 1 for listing issues
 // - 1 for each open issue's comments (up to 50)
 // - 1 for listing PRs
-// - 1 for each PR's reviews
+// - 1 for each agent PR's reviews and 1 for its comments
 // With 5 repos and 60s interval: ~25-50 requests/minute = well within limits
 
 export interface PollerHandlers {
-  onIssueTriggered: (owner: string, repo: string, issueNumber: number, trigger: string) => Promise<void>;
+  onCommand: (context: CommandContext) => Promise<void>;
   onPRClosed: (owner: string, repo: string, prNumber: number) => Promise<void>;
   onPRReview: (owner: string, repo: string, prNumber: number, review: any) => Promise<void>;
 }
@@ -39,15 +43,23 @@ export class GitHubPoller {
   private pollIntervalMs: number;
   private rateLimitRemaining: number = 5000;
   private rateLimitReset: Date = new Date();
+  private store: StateStore;
+  private parser: CommandParser = new CommandParser();
+  private identity: Identity;
 
   constructor(
     config: OrchestratorConfig,
     handlers: PollerHandlers,
-    pollIntervalSeconds: number = 60
+    identity: Identity,
+    tokens: GitHubTokenProvider,
+    pollIntervalSeconds: number = 60,
+    store: StateStore = new MemoryStateStore()
   ) {
     this.config = config;
     this.handlers = handlers;
-    this.octokit = new Octokit({ auth: config.github.token });
+    this.identity = identity;
+    this.store = store;
+    this.octokit = createOctokit(tokens);
     this.pollIntervalMs = pollIntervalSeconds * 1000;
     this.state = {
       lastIssueCheck: new Map(),
@@ -57,6 +69,52 @@ export class GitHubPoller {
     };
   }
 
+  /**
+   * Use a reloaded configuration from the next poll on
+   */
+  updateConfig(config: OrchestratorConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Restore poll cursors from the store so a restart doesn't re-trigger old comments
+   */
+  async restore(): Promise<void> {
+    const issueChecks = await this.store.loadCursors('issues');
+    for (const [repoKey, timestamp] of issueChecks) {
+      this.state.lastIssueCheck.set(repoKey, timestamp);
+    }
+
+    const commentCursors = await this.store.loadCursors('comments');
+    for (const [key, commentId] of commentCursors) {
+      const [repoKey, issueNumber] = key.split('#');
+      if (!this.state.lastCommentCheck.has(repoKey)) {
+        this.state.lastCommentCheck.set(repoKey, new Map());
+      }
+      this.state.lastCommentCheck.get(repoKey)!.set(parseInt(issueNumber, 10), commentId);
+    }
+
+    const reviewCursors = await this.store.loadCursors('reviews');
+    for (const [prKey, reviewId] of reviewCursors) {
+      this.state.knownReviews.set(prKey, reviewId);
+    }
+
+    logger.info('Restored poller state', {
+      repos: issueChecks.size,
+      comments: commentCursors.size,
+      reviews: reviewCursors.size
+    });
+  }
+
+  /**
+   * Persist a poll cursor. Failures are logged; the in-memory cursor is still used.
+   */
+  private saveCursor(namespace: string, key: string, value: number): void {
+    this.store.saveCursor(namespace, key, value).catch(error => {
+      logger.error(`Failed to persist ${namespace} cursor for ${key}`, { error });
+    });
+  }
+
   /**
    * Start polling
    */
@@ -158,7 +216,7 @@ export class GitHubPoller {
   }
 
   /**
-   * Poll for new issues that might contain triggers
+   * Poll for new issues that might contain commands
    */
   private async pollNewIssues(repo: RepoConfig): Promise<void> {
     const repoKey = `${repo.owner}/${repo.name}`;
@@ -185,17 +243,18 @@ export class GitHubPoller {
           continue;
         }
 
-        // Check if issue body contains trigger
-        if (this.isTriggerComment(issue.body || '', repo)) {
-          const issueKey = `${repoKey}#${issue.number}`;
-          logger.info(`Trigger found in issue body`, { repo: repoKey, issue: issue.number });
-
-          await this.handlers.onIssueTriggered(
-            repo.owner,
-            repo.name,
-            issue.number,
-            repo.triggerComment
-          );
+        // Check if issue body contains a command
+        const command = this.parser.parse(issue.body || '', repo);
+        if (command && !this.identity.shouldIgnore(issue.user || undefined, repo)) {
+          logger.info(`Command found in issue body`, { repo: repoKey, issue: issue.number, command: command.name });
+
+          await this.handlers.onCommand({
+            issue: this.toIssue(repo, issue),
+            isPullRequest: false,
+            commentId: 0,
+            author: issue.user?.login || 'unknown',
+            command
+          });
         }
 
         // Initialize comment tracking for this issue
@@ -205,6 +264,7 @@ export class GitHubPoller {
       }
 
       this.state.lastIssueCheck.set(repoKey, now);
+      this.saveCursor('issues', repoKey, now);
     } catch (error) {
       logger.error(`Error polling issues for ${repoKey}`, { error });
     }
@@ -215,7 +275,6 @@ export class GitHubPoller {
    */
   private async pollIssueComments(repo: RepoConfig): Promise<void> {
     const repoKey = `${repo.owner}/${repo.name}`;
-    const repoCommentState = this.state.lastCommentCheck.get(repoKey) || new Map();
 
     // Get open issues to check
     try {
@@ -229,65 +288,92 @@ export class GitHubPoller {
       for (const issue of issuesResponse.data) {
         if (issue.pull_request) continue;
 
-        // Skip bot-created issues
-        if (this.isBotUser(issue.user?.login)) continue;
+        // Skip issues opened by ignored users and bots
+        if (this.identity.shouldIgnore(issue.user || undefined, repo)) continue;
 
-        const lastCommentId = repoCommentState.get(issue.number) || 0;
+        await this.pollComments(repo, this.toIssue(repo, issue), false);
+      }
+    } catch (error) {
+      logger.error(`Error polling issue comments for ${repoKey}`, { error });
+    }
+  }
 
-        try {
-          // Get comments for this issue
-          const commentsResponse = await this.octokit.rest.issues.listComments({
-            owner: repo.owner,
-            repo: repo.name,
-            issue_number: issue.number,
-            since: lastCommentId > 0 ? new Date(lastCommentId).toISOString() : undefined,
-            per_page: 20
-          });
+  /**
+   * Check new comments on an issue or PR for commands
+   */
+  private async pollComments(repo: RepoConfig, issue: GitHubIssue, isPullRequest: boolean): Promise<void> {
+    const repoKey = `${repo.owner}/${repo.name}`;
+    if (!this.state.lastCommentCheck.has(repoKey)) {
+      this.state.lastCommentCheck.set(repoKey, new Map());
+    }
+    const repoCommentState = this.state.lastCommentCheck.get(repoKey)!;
+    const lastCommentId = repoCommentState.get(issue.number) || 0;
 
-          // Check new comments for triggers
-          for (const comment of commentsResponse.data) {
-            // Skip old comments we've already seen
-            if (comment.id <= lastCommentId) continue;
-
-            // Skip bot comments
-            if (this.isBotUser(comment.user?.login)) continue;
-
-            // Check for trigger
-            if (this.isTriggerComment(comment.body || '', repo)) {
-              logger.info(`Trigger comment found`, {
-                repo: repoKey,
-                issue: issue.number,
-                comment: comment.id
-              });
-
-              await this.handlers.onIssueTriggered(
-                repo.owner,
-                repo.name,
-                issue.number,
-                repo.triggerComment
-              );
-            }
-          }
+    try {
+      // Get comments for this issue
+      const commentsResponse = await this.octokit.rest.issues.listComments({
+        owner: repo.owner,
+        repo: repo.name,
+        issue_number: issue.number,
+        since: lastCommentId > 0 ? new Date(lastCommentId).toISOString() : undefined,
+        per_page: 20
+      });
+
+      // Check new comments for commands
+      for (const comment of commentsResponse.data) {
+        // Skip old comments we've already seen
+        if (comment.id <= lastCommentId) continue;
 
-          // Update last seen comment ID
-          if (commentsResponse.data.length > 0) {
-            const maxId = Math.max(...commentsResponse.data.map(c => c.id));
-            repoCommentState.set(issue.number, maxId);
-          }
+        // Skip our own comments and those of ignored users and bots
+        if (this.identity.shouldIgnore(comment.user || undefined, repo)) continue;
+
+        const command = this.parser.parse(comment.body || '', repo);
+        if (command) {
+          logger.info(`Command comment found`, {
+            repo: repoKey,
+            issue: issue.number,
+            comment: comment.id,
+            command: command.name
+          });
 
-        } catch (commentError) {
-          // Continue checking other issues even if one fails
-          logger.debug(`Error checking comments for issue ${issue.number}`, { error: commentError });
+          await this.handlers.onCommand({
+            issue,
+            isPullRequest,
+            commentId: comment.id,
+            author: comment.user?.login || 'unknown',
+            command
+          });
         }
       }
 
-      this.state.lastCommentCheck.set(repoKey, repoCommentState);
+      // Update last seen comment ID
+      if (commentsResponse.data.length > 0) {
+        const maxId = Math.max(...commentsResponse.data.map((c: any) => c.id));
+        repoCommentState.set(issue.number, maxId);
+        this.saveCursor('comments', `${repoKey}#${issue.number}`, maxId);
+      }
 
-    } catch (error) {
-      logger.error(`Error polling issue comments for ${repoKey}`, { error });
+    } catch (commentError) {
+      // Continue checking other issues even if one fails
+      logger.debug(`Error checking comments for #${issue.number}`, { error: commentError });
     }
   }
 
+  /**
+   * Convert an issue or PR from the REST API into a GitHubIssue
+   */
+  private toIssue(repo: RepoConfig, data: any): GitHubIssue {
+    return {
+      owner: repo.owner,
+      repo: repo.name,
+      number: data.number,
+      title: data.title,
+      body: data.body || '',
+      htmlUrl: data.html_url,
+      user: { login: data.user?.login || 'unknown' }
+    };
+  }
+
   /**
    * Poll PRs created by the agent for status changes
    */
@@ -322,8 +408,9 @@ export class GitHubPoller {
           logger.debug(`Tracking agent PR`, { repo: repoKey, pr: pr.number });
         }
 
-        // Check for new reviews
+        // Check for new reviews and PR commands
         await this.pollPRReviews(repo, pr);
+        await this.pollComments(repo, this.toIssue(repo, pr), true);
 
         // Check if PR was closed
         if (pr.state === 'closed') {
@@ -331,6 +418,9 @@ export class GitHubPoller {
           await this.handlers.onPRClosed(repo.owner, repo.name, pr.number);
           this.state.knownPRs.delete(prKey);
           this.state.knownReviews.delete(prKey);
+          this.store.deleteCursor('reviews', prKey).catch(error => {
+            logger.error(`Failed to delete review cursor for ${prKey}`, { error });
+          });
         }
       }
 
@@ -358,11 +448,11 @@ export class GitHubPoller {
         // Skip old reviews we've already processed
         if (review.id <= lastReviewId) continue;
 
-        // Skip bot reviews
-        if (this.isBotUser(review.user?.login)) continue;
+        // Skip reviews by ignored users and bots
+        if (this.identity.shouldIgnore(review.user || undefined, repo)) continue;
 
-        // Only care about change requests and comments
-        if (review.state === 'CHANGES_REQUESTED' || review.state === 'COMMENTED') {
+        // Change requests and comments to act on, approvals to stop on
+        if (review.state === 'CHANGES_REQUESTED' || review.state === 'COMMENTED' || review.state === 'APPROVED') {
           logger.info(`New review on agent PR`, {
             repo: repoKey,
             pr: pr.number,
@@ -388,6 +478,7 @@ export class GitHubPoller {
       if (reviewsResponse.data.length > 0) {
         const maxId = Math.max(...reviewsResponse.data.map(r => r.id));
         this.state.knownReviews.set(prKey, maxId);
+        this.saveCursor('reviews', prKey, maxId);
       }
 
     } catch (error) {
@@ -395,23 +486,6 @@ export class GitHubPoller {
     }
   }
 
-  /**
-   * Check if a comment body matches the trigger
-   */
-  private isTriggerComment(body: string, repo: RepoConfig): boolean {
-    const lowerBody = body.toLowerCase();
-    return lowerBody.includes(repo.triggerComment.toLowerCase());
-  }
-
-  /**
-   * Check if a user is a bot
-   */
-  private isBotUser(login?: string): boolean {
-    if (!login) return true;
-    const botPatterns = ['[bot]', '-bot', 'bot', 'agent', 'ai-agent'];
-    return botPatterns.some(p => login.toLowerCase().endsWith(p));
-  }
-
   /**
    * Manually trigger a poll (for testing)
    */
@@ -0,0 +1,210 @@
+/**
+ * Container Reconciler
+ * Brings StateManager back in line with the agent containers actually running in Docker.
+ * Runs on startup so containers launched before a restart or redeploy are not orphaned.
+ */
+
+import { ActiveIssue, OrchestratorConfig, PullRequest } from './types';
+import { ContainerManager, ManagedContainer } from './container-manager';
+import { GitHubClient } from './github-client';
+import { StateManager } from './state-manager';
+import { logger } from './logger';
+
+export interface ReconcileResult {
+  adopted: number;    // Running containers re-registered in state
+  tornDown: number;   // Containers removed because their work is finished or duplicated
+  flagged: number;    // Containers left alone but needing attention
+  dropped: number;    // State entries whose container no longer exists
+}
+
+export class Reconciler {
+  private config: OrchestratorConfig;
+  private stateManager: StateManager;
+  private containerManager: ContainerManager;
+  private githubClient: GitHubClient;
+
+  constructor(
+    config: OrchestratorConfig,
+    stateManager: StateManager,
+    containerManager: ContainerManager,
+    githubClient: GitHubClient
+  ) {
+    this.config = config;
+    this.stateManager = stateManager;
+    this.containerManager = containerManager;
+    this.githubClient = githubClient;
+  }
+
+  /**
+   * Match labelled containers to issues/PRs and fix up state
+   */
+  async reconcile(): Promise<ReconcileResult> {
+    const result: ReconcileResult = { adopted: 0, tornDown: 0, flagged: 0, dropped: 0 };
+    const containers = (await this.containerManager.listActiveContainers())
+      .filter(c => c.labels['autogen.type'] === 'agent');
+    const agentPRs = new Map<string, PullRequest[]>();
+    const runningIds = new Set(containers.filter(c => c.state === 'running').map(c => c.id));
+
+    for (const container of containers) {
+      try {
+        await this.reconcileContainer(container, agentPRs, runningIds, result);
+      } catch (error) {
+        logger.error(`Failed to reconcile container ${container.name}`, { error });
+      }
+    }
+
+    // Drop state entries whose container has disappeared
+    const knownIds = new Set(containers.map(c => c.id));
+    for (const issue of this.stateManager.getAllActive()) {
+      if (issue.containerId && !knownIds.has(issue.containerId)) {
+        logger.warn(`Container for ${this.describe(issue)} no longer exists, dropping from state`);
+        this.stateManager.removeIssue(issue.repoOwner, issue.repoName, issue.issueNumber);
+        result.dropped++;
+      }
+    }
+
+    logger.info('Container reconciliation complete', result);
+    return result;
+  }
+
+  /**
+   * Reconcile a single managed container
+   */
+  private async reconcileContainer(
+    container: ManagedContainer,
+    agentPRs: Map<string, PullRequest[]>,
+    runningIds: Set<string>,
+    result: ReconcileResult
+  ): Promise<void> {
+    const [owner, repo] = (container.labels['autogen.repo'] || '').split('/');
+    const issueNumber = parseInt(container.labels['autogen.issue'] || '', 10);
+
+    if (!owner || !repo || isNaN(issueNumber)) {
+      logger.warn(`Container ${container.name} is missing autogen.repo/autogen.issue labels, skipping`);
+      result.flagged++;
+      return;
+    }
+
+    const running = container.state === 'running';
+    const existing = this.stateManager.getIssue(owner, repo, issueNumber);
+    const tracked = existing !== undefined && existing.containerId === container.id;
+
+    // Stopped containers are left for the periodic cleanup loop (or, if tracked, the health check loop)
+    if (!running) {
+      return;
+    }
+
+    // Another running container already owns this issue: this one is a leftover duplicate
+    if (!tracked && existing && existing.containerId && runningIds.has(existing.containerId)) {
+      logger.warn(`Container ${container.name} duplicates ${existing.containerName} for ${owner}/${repo}#${issueNumber}, removing`);
+      await this.containerManager.removeContainer(container.id);
+      result.tornDown++;
+      return;
+    }
+
+    // The state entry points at a container that is gone or stopped: this one replaces it
+    if (!tracked && existing) {
+      logger.warn(`State for ${this.describe(existing)} points at ${existing.containerName}, which is not running; adopting ${container.name} instead`);
+    }
+
+    const repoConfig = this.githubClient.getRepoConfig(owner, repo, this.config.repos);
+    if (!repoConfig) {
+      if (tracked) {
+        return;
+      }
+      logger.warn(`Container ${container.name} belongs to ${owner}/${repo}, which is not a configured repo; leaving it running`);
+      result.flagged++;
+      return;
+    }
+
+    const issue = await this.githubClient.getIssue(owner, repo, issueNumber);
+    const pr = await this.findAgentPR(owner, repo, issueNumber, container.labels['autogen.branch'], agentPRs);
+
+    // The agent's PR was closed while the orchestrator was down
+    if (tracked && existing.prNumber && !pr) {
+      logger.info(`PR ${owner}/${repo}#${existing.prNumber} is closed, removing container ${container.name}`);
+      await this.tearDown(container, existing);
+      result.tornDown++;
+      return;
+    }
+
+    if (issue.state === 'closed') {
+      if (pr) {
+        // Issue closed but the PR is still open: keep the agent until the PR closes
+        logger.warn(`Issue ${owner}/${repo}#${issueNumber} is closed but PR #${pr.number} is still open; keeping ${container.name} until the PR closes`);
+        result.flagged++;
+      } else {
+        logger.info(`Issue ${owner}/${repo}#${issueNumber} is closed, removing container ${container.name}`);
+        await this.tearDown(container, tracked ? existing : undefined);
+        result.tornDown++;
+        return;
+      }
+    }
+
+    // Already tracked: still has work to do, and state already knows about it
+    if (tracked) {
+      return;
+    }
+
+    const startedAt = new Date(container.labels['autogen.started'] || Date.now());
+    const activeIssue: ActiveIssue = {
+      repoOwner: owner,
+      repoName: repo,
+      issueNumber,
+      issueTitle: issue.title,
+      issueBody: issue.body,
+      containerId: container.id,
+      containerName: container.name,
+      status: pr ? 'awaiting_review' : 'developing',
+      branchName: pr?.headRef.name || container.labels['autogen.branch'] || '',
+      prNumber: pr?.number,
+      startedAt: isNaN(startedAt.getTime()) ? new Date() : startedAt
+    };
+
+    this.stateManager.registerIssue(activeIssue);
+    result.adopted++;
+    logger.info(`Adopted running container ${container.name} for ${this.describe(activeIssue)}`, {
+      prNumber: pr?.number
+    });
+  }
+
+  /**
+   * Remove a container whose work is finished, and its state entry if it is tracked
+   */
+  private async tearDown(container: ManagedContainer, tracked?: ActiveIssue): Promise<void> {
+    await this.containerManager.removeContainer(container.id);
+    if (tracked) {
+      this.stateManager.removeIssue(tracked.repoOwner, tracked.repoName, tracked.issueNumber);
+    }
+  }
+
+  /**
+   * Find the open agent PR for an issue, preferring an exact branch match
+   */
+  private async findAgentPR(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    branchName: string | undefined,
+    cache: Map<string, PullRequest[]>
+  ): Promise<PullRequest | undefined> {
+    const repoKey = `${owner}/${repo}`;
+    if (!cache.has(repoKey)) {
+      cache.set(repoKey, await this.githubClient.listAgentPRs(owner, repo));
+    }
+
+    const prs = cache.get(repoKey)!;
+    if (branchName) {
+      const exact = prs.find(pr => pr.headRef.name === branchName);
+      if (exact) {
+        return exact;
+      }
+    }
+
+    return prs.find(pr => pr.headRef.name.startsWith(`ai-agent-issue-${issueNumber}-`));
+  }
+
+  private describe(issue: ActiveIssue): string {
+    return `${issue.repoOwner}/${issue.repoName}#${issue.issueNumber}`;
+  }
+}
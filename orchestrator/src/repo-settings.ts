@@ -0,0 +1,162 @@
+/**
+ * Repository Settings
+ * Reads the .autogas.yml a target repository ships to tune the agent without access to
+ * the orchestrator's config. Only a safe subset of the repo's settings can be overridden;
+ * budgets, access control and credentials stay with the orchestrator.
+ */
+
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+import { GitHubClient } from './github-client';
+import { OrchestratorConfig, RepoConfig, RepoSettings } from './types';
+
+// Where a repository's settings file is looked for, in order
+export const REPO_SETTINGS_PATHS = ['.autogas.yml', '.github/autogas.yml'];
+
+const name = z.string().trim().min(1, 'must not be empty');
+const names = z.array(name);
+
+// Repo-relative globs; nothing that escapes the repository
+const pathGlob = name.refine(
+  glob => !glob.startsWith('/') && !glob.split('/').includes('..'),
+  'must be a path inside the repository'
+);
+
+// Branch names are passed to git, so nothing that reads as an option or needs quoting
+const branch = name.regex(/^(?!-)[A-Za-z0-9._\/-]+$/, 'must be a branch name');
+
+const repoSettingsSchema = z.object({
+  prompt_template: name.optional(),
+  validate: z.union([name.transform(command => [command]), names], {
+    errorMap: () => ({ message: 'must be a command or a list of commands' })
+  }).optional(),
+  allowed_paths: z.array(pathGlob).optional(),
+  base_branch: branch.optional(),
+  labels: names.optional(),
+  reviewers: names.optional(),
+  team_reviewers: names.optional(),
+  profile: name.optional()
+}).strict();
+
+export interface RepoSettingsResult {
+  path?: string;             // The settings file found, if any
+  settings?: RepoSettings;   // Unset if there is no file or it has errors
+  errors: string[];
+}
+
+export class RepoSettingsLoader {
+  private githubClient: GitHubClient;
+  private config: OrchestratorConfig;
+
+  constructor(githubClient: GitHubClient, config: OrchestratorConfig) {
+    this.githubClient = githubClient;
+    this.config = config;
+  }
+
+  /**
+   * Check settings files against a reloaded configuration from now on
+   */
+  updateConfig(config: OrchestratorConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Fetch and check a repository's settings file from its default branch
+   */
+  async load(owner: string, repo: string): Promise<RepoSettingsResult> {
+    for (const path of REPO_SETTINGS_PATHS) {
+      const content = await this.githubClient.getFileContent(owner, repo, path);
+      if (content !== null) {
+        return { path, ...parseRepoSettings(content, this.config) };
+      }
+    }
+    return { errors: [] };
+  }
+}
+
+/**
+ * Parse a settings file, checking it against the schema and against what the
+ * orchestrator has configured (prompt templates and container profiles are referenced by name)
+ */
+export function parseRepoSettings(
+  content: string,
+  config: OrchestratorConfig
+): { settings?: RepoSettings; errors: string[] } {
+  let document: unknown;
+  try {
+    document = yaml.load(content) ?? {};
+  } catch (error) {
+    // The first line says what and where; the rest is a snippet of the file
+    return { errors: [`Invalid YAML: ${String(error instanceof Error ? error.message : error).split('\n')[0]}`] };
+  }
+
+  const parsed = repoSettingsSchema.safeParse(document);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || '(file)'}: ${issue.message}`)
+    };
+  }
+
+  const { data } = parsed;
+  const errors: string[] = [];
+  const prompts = Object.keys(config.claude.prompts || {});
+  const profiles = Object.keys(config.containers.profiles || {});
+
+  if (data.prompt_template && !prompts.includes(data.prompt_template)) {
+    errors.push(`prompt_template: unknown template "${data.prompt_template}" (available: ${prompts.join(', ') || 'none'})`);
+  }
+  if (data.profile && !profiles.includes(data.profile)) {
+    errors.push(`profile: unknown container profile "${data.profile}" (available: ${profiles.join(', ') || 'none'})`);
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    settings: {
+      promptTemplate: data.prompt_template,
+      validate: data.validate,
+      allowedPaths: data.allowed_paths,
+      baseBranch: data.base_branch,
+      labels: data.labels,
+      reviewers: data.reviewers,
+      teamReviewers: data.team_reviewers,
+      profile: data.profile
+    },
+    errors: []
+  };
+}
+
+/**
+ * A repo's config with its settings file applied over it
+ */
+export function applyRepoSettings(repoConfig: RepoConfig | undefined, settings?: RepoSettings): RepoConfig | undefined {
+  if (!repoConfig || !settings) {
+    return repoConfig;
+  }
+
+  const { labels, reviewers, teamReviewers } = settings;
+  return {
+    ...repoConfig,
+    promptTemplate: settings.promptTemplate ?? repoConfig.promptTemplate,
+    validate: settings.validate ?? repoConfig.validate,
+    allowedPaths: settings.allowedPaths ?? repoConfig.allowedPaths,
+    baseBranch: settings.baseBranch ?? repoConfig.baseBranch,
+    profile: settings.profile ?? repoConfig.profile,
+    prWorkflow: {
+      ...repoConfig.prWorkflow,
+      ...(labels && { labels }),
+      ...(reviewers && { reviewers }),
+      ...(teamReviewers && { teamReviewers })
+    }
+  };
+}
+
+/**
+ * The issue comment explaining why a settings file was ignored
+ */
+export function describeRepoSettingsErrors(path: string, errors: string[]): string {
+  return `⚠️ \`${path}\` has errors, so it was ignored and the default settings are used for this run:\n\n` +
+    errors.map(error => `- ${error}`).join('\n') +
+    `\n\nAllowed settings: ${Object.keys(repoSettingsSchema.shape).map(key => `\`${key}\``).join(', ')}.`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Secrets Broker
+ * Hands credentials to agent containers out of band instead of through container env vars.
+ * Secrets are registered when a container is created and can be claimed exactly once,
+ * with the container's run token, shortly after it starts.
+ */
+
+import { OrchestratorConfig } from './types';
+import { ScopedToken } from './github-auth';
+import { addSecret } from './redact';
+import { logger } from './logger';
+
+// Unclaimed secrets are dropped after this long
+const CLAIM_WINDOW_MS = 10 * 60 * 1000;
+
+export interface AgentSecrets {
+  anthropicApiKey: string;
+  githubToken: ScopedToken;
+}
+
+export class SecretsBroker {
+  private pending: Map<string, { secrets: AgentSecrets; timer: NodeJS.Timeout }> = new Map();
+
+  constructor(config: OrchestratorConfig) {
+    // Never echo the orchestrator's own credentials
+    addSecret(config.claude.apiKey);
+    addSecret(config.github.token);
+    addSecret(config.github.webhookSecret);
+    addSecret(config.server.agentSecret);
+    addSecret(config.server.operatorToken);
+  }
+
+  /**
+   * Hold secrets for a container until it claims them
+   */
+  register(containerId: string, secrets: AgentSecrets): void {
+    this.forget(containerId);
+
+    addSecret(secrets.anthropicApiKey);
+    this.track(secrets.githubToken);
+
+    const timer = setTimeout(() => {
+      if (this.pending.delete(containerId)) {
+        logger.warn(`Secrets for ${containerId} were never claimed, discarding them`);
+      }
+    }, CLAIM_WINDOW_MS);
+    timer.unref();
+
+    this.pending.set(containerId, { secrets, timer });
+  }
+
+  /**
+   * Hand over a container's secrets. Returns undefined if they were already claimed,
+   * expired, or never registered.
+   */
+  claim(containerId: string): AgentSecrets | undefined {
+    const entry = this.pending.get(containerId);
+    if (!entry) {
+      return undefined;
+    }
+
+    clearTimeout(entry.timer);
+    this.pending.delete(containerId);
+    return entry.secrets;
+  }
+
+  /**
+   * Drop a container's unclaimed secrets (e.g. it failed to start)
+   */
+  forget(containerId: string): void {
+    const entry = this.pending.get(containerId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(containerId);
+    }
+  }
+
+  /**
+   * Make sure a token handed to an agent is redacted from logs and comments
+   */
+  track(token: ScopedToken): void {
+    addSecret(token.token);
+  }
+}
@@ -1,34 +1,90 @@
 /**
  * State Manager
  * Tracks active issues and their associated containers
+ * Every change is written through to the configured StateStore so it survives restarts
  */
 
-import { ActiveIssue, ActiveIssueStatus, OrchestratorConfig } from './types';
+import {
+  ACTIVE_ISSUE_STATUSES,
+  ActiveIssue,
+  ActiveIssueStatus,
+  OrchestratorConfig,
+  SlotAllocation
+} from './types';
+import { IssueEvent, MemoryStateStore, StateStore } from './state-store';
+import { logger } from './logger';
 
 export class StateManager {
   private activeIssues: Map<string, ActiveIssue>;
   private maxConcurrent: number;
   private config: OrchestratorConfig;
+  private store: StateStore;
 
-  constructor(config: OrchestratorConfig) {
+  constructor(config: OrchestratorConfig, store: StateStore = new MemoryStateStore()) {
     this.activeIssues = new Map();
     this.maxConcurrent = config.containers.maxConcurrent;
     this.config = config;
+    this.store = store;
   }
 
   /**
-   * Check if we can start a new agent
+   * Use a reloaded configuration (agent limits and repos) from now on
    */
-  canStartNew(): boolean {
-    const activeCount = this.activeIssues.size;
-    return activeCount < this.maxConcurrent;
+  updateConfig(config: OrchestratorConfig): void {
+    this.config = config;
+    this.maxConcurrent = config.containers.maxConcurrent;
+  }
+
+  /**
+   * Rehydrate active issues from the store (call once on boot)
+   */
+  async restore(): Promise<number> {
+    const issues = await this.store.loadIssues();
+    for (const issue of issues) {
+      const key = this.getIssueKey(issue.repoOwner, issue.repoName, issue.issueNumber);
+      this.activeIssues.set(key, issue);
+    }
+    return issues.length;
+  }
+
+  /**
+   * Get the recorded history of an issue (status transitions, PR links)
+   */
+  async getIssueHistory(owner: string, repo: string, issueNumber: number): Promise<IssueEvent[]> {
+    return this.store.getEvents(this.getIssueKey(owner, repo, issueNumber));
+  }
+
+  /**
+   * Check if we can start a new agent, optionally for a specific repo
+   * (which must also be under its repo and owner caps)
+   */
+  canStartNew(owner?: string, repo?: string): boolean {
+    return this.getBlockReason(owner, repo) === null;
   }
 
   /**
-   * Get queue position if unable to start
+   * Why a new agent can't start right now, or null if it can
    */
-  getQueuePosition(): number {
-    return this.activeIssues.size - this.maxConcurrent + 1;
+  getBlockReason(owner?: string, repo?: string): string | null {
+    if (this.activeIssues.size >= this.maxConcurrent) {
+      return `all ${this.maxConcurrent} agent slots are in use`;
+    }
+
+    if (owner) {
+      const ownerLimit = this.getOwnerLimit(owner);
+      if (ownerLimit !== undefined && this.countActive(owner) >= ownerLimit) {
+        return `${owner} is at its limit of ${ownerLimit} running agents`;
+      }
+    }
+
+    if (owner && repo) {
+      const repoLimit = this.getRepoLimit(owner, repo);
+      if (repoLimit !== undefined && this.countActive(owner, repo) >= repoLimit) {
+        return `${owner}/${repo} is at its limit of ${repoLimit} running agents`;
+      }
+    }
+
+    return null;
   }
 
   /**
@@ -37,6 +93,7 @@ export class StateManager {
   registerIssue(issue: ActiveIssue): void {
     const key = this.getIssueKey(issue.repoOwner, issue.repoName, issue.issueNumber);
     this.activeIssues.set(key, issue);
+    this.persist(key, issue, { event: 'registered', value: issue.status, at: new Date() });
   }
 
   /**
@@ -48,11 +105,15 @@ export class StateManager {
   }
 
   /**
-   * Get issue by container ID
+   * Get issue by container ID (agents identify themselves by container name, so that matches too)
    */
   getIssueByContainerId(containerId: string): ActiveIssue | undefined {
+    if (!containerId) {
+      return undefined;
+    }
+
     for (const issue of this.activeIssues.values()) {
-      if (issue.containerId === containerId) {
+      if (issue.containerId === containerId || issue.containerName === containerId) {
         return issue;
       }
     }
@@ -71,11 +132,17 @@ export class StateManager {
   ): void {
     const issue = this.getIssue(owner, repo, issueNumber);
     if (issue) {
+      const previousStatus = issue.status;
       issue.status = status;
       issue.lastHeartbeat = new Date();
       if (error) {
         issue.error = error;
       }
+      this.persist(
+        this.getIssueKey(owner, repo, issueNumber),
+        issue,
+        previousStatus !== status ? { event: 'status', value: status, at: new Date() } : undefined
+      );
     }
   }
 
@@ -88,8 +155,14 @@ export class StateManager {
   ): void {
     const issue = this.getIssueByContainerId(containerId);
     if (issue) {
+      const previousStatus = issue.status;
       Object.assign(issue, updates);
       issue.lastHeartbeat = new Date();
+      this.persist(
+        this.getIssueKey(issue.repoOwner, issue.repoName, issue.issueNumber),
+        issue,
+        previousStatus !== issue.status ? { event: 'status', value: issue.status, at: new Date() } : undefined
+      );
     }
   }
 
@@ -101,6 +174,11 @@ export class StateManager {
     if (issue) {
       issue.prNumber = prNumber;
       issue.status = 'pr_created';
+      this.persist(
+        this.getIssueKey(owner, repo, issueNumber),
+        issue,
+        { event: 'pr_linked', value: prNumber.toString(), at: new Date() }
+      );
     }
   }
 
@@ -109,7 +187,13 @@ export class StateManager {
    */
   removeIssue(owner: string, repo: string, issueNumber: number): void {
     const key = this.getIssueKey(owner, repo, issueNumber);
-    this.activeIssues.delete(key);
+    if (!this.activeIssues.delete(key)) {
+      return;
+    }
+
+    this.store.deleteIssue(key)
+      .then(() => this.store.recordEvent(key, { event: 'removed', value: '', at: new Date() }))
+      .catch(error => logger.error(`Failed to persist removal of ${key}`, { error }));
   }
 
   /**
@@ -152,27 +236,90 @@ export class StateManager {
    */
   getStats(): {
     total: number;
+    maxConcurrent: number;
     byStatus: Record<ActiveIssueStatus, number>;
+    byRepo: Record<string, SlotAllocation>;
+    byOwner: Record<string, SlotAllocation>;
     canStartMore: boolean;
   } {
     const all = this.getAllActive();
     const byStatus: Record<string, number> = {};
+    const byRepo: Record<string, SlotAllocation> = {};
+    const byOwner: Record<string, SlotAllocation> = {};
 
     for (const status of this.getAllStatuses()) {
       byStatus[status] = all.filter(i => i.status === status).length;
     }
 
+    // Every configured repo appears, so idle repos show their free capacity too (keys lowercased)
+    const count = (owner: string, repo: string, active: number) => {
+      const repoKey = `${owner}/${repo}`.toLowerCase();
+      const ownerKey = owner.toLowerCase();
+      byRepo[repoKey] = byRepo[repoKey] || { active: 0, limit: this.getRepoLimit(owner, repo) };
+      byRepo[repoKey].active += active;
+      byOwner[ownerKey] = byOwner[ownerKey] || { active: 0, limit: this.getOwnerLimit(owner) };
+      byOwner[ownerKey].active += active;
+    };
+
+    for (const repo of this.config.repos) {
+      count(repo.owner, repo.name, 0);
+    }
+
+    for (const issue of all) {
+      count(issue.repoOwner, issue.repoName, 1);
+    }
+
     return {
       total: all.length,
+      maxConcurrent: this.maxConcurrent,
       byStatus: byStatus as Record<ActiveIssueStatus, number>,
+      byRepo,
+      byOwner,
       canStartMore: this.canStartNew()
     };
   }
 
+  /**
+   * Running agents for an owner, or for one of its repos
+   */
+  private countActive(owner: string, repo?: string): number {
+    let count = 0;
+    for (const issue of this.activeIssues.values()) {
+      if (issue.repoOwner.toLowerCase() === owner.toLowerCase() &&
+          (!repo || issue.repoName.toLowerCase() === repo.toLowerCase())) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private getRepoLimit(owner: string, repo: string): number | undefined {
+    const repoConfig = this.config.repos.find(
+      r => r.owner.toLowerCase() === owner.toLowerCase() && r.name.toLowerCase() === repo.toLowerCase()
+    );
+    return repoConfig?.maxConcurrent ?? this.config.containers.maxPerRepo;
+  }
+
+  private getOwnerLimit(owner: string): number | undefined {
+    const limits = this.config.containers.ownerLimits || {};
+    const key = Object.keys(limits).find(k => k.toLowerCase() === owner.toLowerCase());
+    return key ? limits[key] : this.config.containers.maxPerOwner;
+  }
+
+  /**
+   * Write an issue (and optionally a history event) through to the store.
+   * Persistence failures are logged rather than thrown so the in-memory state stays usable.
+   */
+  private persist(key: string, issue: ActiveIssue, event?: IssueEvent): void {
+    this.store.saveIssue(key, issue)
+      .then(() => event ? this.store.recordEvent(key, event) : undefined)
+      .catch(error => logger.error(`Failed to persist state for ${key}`, { error }));
+  }
+
   /**
    * Generate unique issue key
    */
-  private getIssueKey(owner: string, repo: string, issueNumber: string): string {
+  private getIssueKey(owner: string, repo: string, issueNumber: number): string {
     return `${owner}/${repo}#${issueNumber}`;
   }
 
@@ -180,18 +327,6 @@ export class StateManager {
    * Get all possible status values
    */
   private getAllStatuses(): ActiveIssueStatus[] {
-    return [
-      'starting',
-      'cloning',
-      'analyzing',
-      'developing',
-      'testing',
-      'pr_created',
-      'awaiting_review',
-      'iterating',
-      'done',
-      'error',
-      'aborted'
-    ];
+    return ACTIVE_ISSUE_STATUSES;
   }
 }
@@ -0,0 +1,470 @@
+/**
+ * State Store
+ * Durable persistence for orchestrator state so a restart can pick up where it left off
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import Redis from 'ioredis';
+import { ActiveIssue, OrchestratorConfig, QueuedIssue, RunUsage } from './types';
+
+/**
+ * A single entry in an issue's history (status transitions, PR links, removal)
+ */
+export interface IssueEvent {
+  event: 'registered' | 'status' | 'pr_linked' | 'removed';
+  value: string;
+  at: Date;
+}
+
+/**
+ * Claude usage for one issue on one day (UTC, YYYY-MM-DD)
+ */
+export interface UsageRecord extends RunUsage {
+  issueKey: string;
+  day: string;
+}
+
+export interface StateStore {
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  // Active issues, keyed by owner/repo#number
+  loadIssues(): Promise<ActiveIssue[]>;
+  saveIssue(key: string, issue: ActiveIssue): Promise<void>;
+  deleteIssue(key: string): Promise<void>;
+  recordEvent(key: string, event: IssueEvent): Promise<void>;
+  getEvents(key: string): Promise<IssueEvent[]>;
+
+  // Issues waiting for a free agent slot
+  loadQueue(): Promise<QueuedIssue[]>;
+  saveQueueItem(key: string, item: QueuedIssue): Promise<void>;
+  deleteQueueItem(key: string): Promise<void>;
+
+  // Poller cursors, grouped by namespace (e.g. "comments", "reviews")
+  loadCursors(namespace: string): Promise<Map<string, number>>;
+  saveCursor(namespace: string, key: string, value: number): Promise<void>;
+  deleteCursor(namespace: string, key: string): Promise<void>;
+
+  // Claude usage per issue and day; kept after the issue is done
+  loadUsage(): Promise<UsageRecord[]>;
+  addUsage(record: UsageRecord): Promise<void>;  // Adds to the issue's totals for that day
+}
+
+// Redis hashes holding the usage counters, in UsageRecord field order
+const USAGE_FIELDS = ['input', 'output', 'cost', 'invocations'];
+
+/**
+ * Create the state store configured in `state.driver`
+ */
+export function createStateStore(config: OrchestratorConfig['state']): StateStore {
+  switch (config.driver) {
+    case 'sqlite':
+      return new SqliteStateStore(config.path);
+    case 'redis':
+      if (!config.url) {
+        throw new Error('state.url is required when state.driver is "redis"');
+      }
+      return new RedisStateStore(config.url);
+    case 'memory':
+      return new MemoryStateStore();
+    default:
+      throw new Error(`Unknown state driver: ${config.driver}`);
+  }
+}
+
+/**
+ * Serialize an issue to JSON (dates become ISO strings)
+ */
+function serializeIssue(issue: ActiveIssue): string {
+  return JSON.stringify(issue);
+}
+
+/**
+ * Restore an issue from JSON, reviving date fields
+ */
+function deserializeIssue(data: string): ActiveIssue {
+  const parsed = JSON.parse(data);
+  return {
+    ...parsed,
+    startedAt: new Date(parsed.startedAt),
+    lastHeartbeat: parsed.lastHeartbeat ? new Date(parsed.lastHeartbeat) : undefined
+  };
+}
+
+/**
+ * Restore a queued issue from JSON, reviving date fields
+ */
+function deserializeQueueItem(data: string): QueuedIssue {
+  const parsed = JSON.parse(data);
+  return {
+    ...parsed,
+    enqueuedAt: new Date(parsed.enqueuedAt)
+  };
+}
+
+/**
+ * SQLite-backed store (default). Keeps everything in a single file on disk.
+ */
+export class SqliteStateStore implements StateStore {
+  private db?: Database.Database;
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async init(): Promise<void> {
+    try {
+      fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+      this.db = new Database(this.filePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS issues (
+          key TEXT PRIMARY KEY,
+          repo_owner TEXT NOT NULL,
+          repo_name TEXT NOT NULL,
+          issue_number INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          container_id TEXT,
+          pr_number INTEGER,
+          data TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS issue_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          issue_key TEXT NOT NULL,
+          event TEXT NOT NULL,
+          value TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_issue_events_key ON issue_events (issue_key);
+        CREATE TABLE IF NOT EXISTS queue (
+          key TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          enqueued_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS cursors (
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value INTEGER NOT NULL,
+          PRIMARY KEY (namespace, key)
+        );
+        CREATE TABLE IF NOT EXISTS usage (
+          issue_key TEXT NOT NULL,
+          day TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cost_usd REAL NOT NULL,
+          invocations INTEGER NOT NULL,
+          PRIMARY KEY (issue_key, day)
+        );
+      `);
+    } catch (error) {
+      throw new Error(`Failed to open state database at ${this.filePath}: ${error}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  async loadIssues(): Promise<ActiveIssue[]> {
+    const rows = this.getDb().prepare('SELECT data FROM issues').all() as Array<{ data: string }>;
+    return rows.map(row => deserializeIssue(row.data));
+  }
+
+  async saveIssue(key: string, issue: ActiveIssue): Promise<void> {
+    this.getDb().prepare(`
+      INSERT INTO issues (key, repo_owner, repo_name, issue_number, status, container_id, pr_number, data, updated_at)
+      VALUES (@key, @repoOwner, @repoName, @issueNumber, @status, @containerId, @prNumber, @data, @updatedAt)
+      ON CONFLICT(key) DO UPDATE SET
+        status = excluded.status,
+        container_id = excluded.container_id,
+        pr_number = excluded.pr_number,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      key,
+      repoOwner: issue.repoOwner,
+      repoName: issue.repoName,
+      issueNumber: issue.issueNumber,
+      status: issue.status,
+      containerId: issue.containerId || null,
+      prNumber: issue.prNumber ?? null,
+      data: serializeIssue(issue),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  async deleteIssue(key: string): Promise<void> {
+    this.getDb().prepare('DELETE FROM issues WHERE key = ?').run(key);
+  }
+
+  async recordEvent(key: string, event: IssueEvent): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO issue_events (issue_key, event, value, created_at) VALUES (?, ?, ?, ?)')
+      .run(key, event.event, event.value, event.at.toISOString());
+  }
+
+  async getEvents(key: string): Promise<IssueEvent[]> {
+    const rows = this.getDb()
+      .prepare('SELECT event, value, created_at FROM issue_events WHERE issue_key = ? ORDER BY id')
+      .all(key) as Array<{ event: IssueEvent['event']; value: string; created_at: string }>;
+    return rows.map(row => ({ event: row.event, value: row.value, at: new Date(row.created_at) }));
+  }
+
+  async loadQueue(): Promise<QueuedIssue[]> {
+    const rows = this.getDb().prepare('SELECT data FROM queue ORDER BY enqueued_at').all() as Array<{ data: string }>;
+    return rows.map(row => deserializeQueueItem(row.data));
+  }
+
+  async saveQueueItem(key: string, item: QueuedIssue): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO queue (key, data, enqueued_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET data = excluded.data')
+      .run(key, JSON.stringify(item), item.enqueuedAt.toISOString());
+  }
+
+  async deleteQueueItem(key: string): Promise<void> {
+    this.getDb().prepare('DELETE FROM queue WHERE key = ?').run(key);
+  }
+
+  async loadCursors(namespace: string): Promise<Map<string, number>> {
+    const rows = this.getDb()
+      .prepare('SELECT key, value FROM cursors WHERE namespace = ?')
+      .all(namespace) as Array<{ key: string; value: number }>;
+    return new Map(rows.map(row => [row.key, row.value]));
+  }
+
+  async saveCursor(namespace: string, key: string, value: number): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO cursors (namespace, key, value) VALUES (?, ?, ?) ON CONFLICT(namespace, key) DO UPDATE SET value = excluded.value')
+      .run(namespace, key, value);
+  }
+
+  async deleteCursor(namespace: string, key: string): Promise<void> {
+    this.getDb().prepare('DELETE FROM cursors WHERE namespace = ? AND key = ?').run(namespace, key);
+  }
+
+  async loadUsage(): Promise<UsageRecord[]> {
+    const rows = this.getDb().prepare('SELECT * FROM usage').all() as Array<{
+      issue_key: string;
+      day: string;
+      input_tokens: number;
+      output_tokens: number;
+      cost_usd: number;
+      invocations: number;
+    }>;
+    return rows.map(row => ({
+      issueKey: row.issue_key,
+      day: row.day,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd,
+      invocations: row.invocations
+    }));
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    this.getDb().prepare(`
+      INSERT INTO usage (issue_key, day, input_tokens, output_tokens, cost_usd, invocations)
+      VALUES (@issueKey, @day, @inputTokens, @outputTokens, @costUsd, @invocations)
+      ON CONFLICT(issue_key, day) DO UPDATE SET
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cost_usd = cost_usd + excluded.cost_usd,
+        invocations = invocations + excluded.invocations
+    `).run(record);
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('State database is not initialized');
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Redis-backed store, for deployments that run the optional redis service
+ */
+export class RedisStateStore implements StateStore {
+  private redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url, { keyPrefix: 'autogen:', lazyConnect: true });
+  }
+
+  async init(): Promise<void> {
+    try {
+      await this.redis.connect();
+    } catch (error) {
+      throw new Error(`Failed to connect to Redis: ${error}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  async loadIssues(): Promise<ActiveIssue[]> {
+    const entries = await this.redis.hvals('issues');
+    return entries.map(deserializeIssue);
+  }
+
+  async saveIssue(key: string, issue: ActiveIssue): Promise<void> {
+    await this.redis.hset('issues', key, serializeIssue(issue));
+  }
+
+  async deleteIssue(key: string): Promise<void> {
+    await this.redis.hdel('issues', key);
+  }
+
+  async recordEvent(key: string, event: IssueEvent): Promise<void> {
+    await this.redis.rpush(`events:${key}`, JSON.stringify(event));
+  }
+
+  async getEvents(key: string): Promise<IssueEvent[]> {
+    const entries = await this.redis.lrange(`events:${key}`, 0, -1);
+    return entries.map(entry => {
+      const parsed = JSON.parse(entry);
+      return { ...parsed, at: new Date(parsed.at) };
+    });
+  }
+
+  async loadQueue(): Promise<QueuedIssue[]> {
+    const entries = await this.redis.hvals('queue');
+    return entries.map(deserializeQueueItem);
+  }
+
+  async saveQueueItem(key: string, item: QueuedIssue): Promise<void> {
+    await this.redis.hset('queue', key, JSON.stringify(item));
+  }
+
+  async deleteQueueItem(key: string): Promise<void> {
+    await this.redis.hdel('queue', key);
+  }
+
+  async loadCursors(namespace: string): Promise<Map<string, number>> {
+    const entries = await this.redis.hgetall(`cursors:${namespace}`);
+    return new Map(Object.entries(entries).map(([key, value]) => [key, Number(value)]));
+  }
+
+  async saveCursor(namespace: string, key: string, value: number): Promise<void> {
+    await this.redis.hset(`cursors:${namespace}`, key, value.toString());
+  }
+
+  async deleteCursor(namespace: string, key: string): Promise<void> {
+    await this.redis.hdel(`cursors:${namespace}`, key);
+  }
+
+  async loadUsage(): Promise<UsageRecord[]> {
+    const [input, output, cost, invocations] = await Promise.all(
+      USAGE_FIELDS.map(field => this.redis.hgetall(`usage:${field}`))
+    );
+    return Object.keys(input).map(field => {
+      const [day, issueKey] = field.split(' ');
+      return {
+        issueKey,
+        day,
+        inputTokens: Number(input[field]),
+        outputTokens: Number(output[field] || 0),
+        costUsd: Number(cost[field] || 0),
+        invocations: Number(invocations[field] || 0)
+      };
+    });
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    // One hash per counter so each can be incremented atomically
+    const field = `${record.day} ${record.issueKey}`;
+    await this.redis.multi()
+      .hincrby('usage:input', field, record.inputTokens)
+      .hincrby('usage:output', field, record.outputTokens)
+      .hincrbyfloat('usage:cost', field, record.costUsd)
+      .hincrby('usage:invocations', field, record.invocations)
+      .exec();
+  }
+}
+
+/**
+ * Non-durable store. State is lost on restart (useful for local experiments).
+ */
+export class MemoryStateStore implements StateStore {
+  private issues: Map<string, string> = new Map();
+  private events: Map<string, IssueEvent[]> = new Map();
+  private queue: Map<string, string> = new Map();
+  private cursors: Map<string, Map<string, number>> = new Map();
+  private usage: Map<string, UsageRecord> = new Map();
+
+  async init(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  async loadIssues(): Promise<ActiveIssue[]> {
+    return Array.from(this.issues.values()).map(deserializeIssue);
+  }
+
+  async saveIssue(key: string, issue: ActiveIssue): Promise<void> {
+    this.issues.set(key, serializeIssue(issue));
+  }
+
+  async deleteIssue(key: string): Promise<void> {
+    this.issues.delete(key);
+  }
+
+  async recordEvent(key: string, event: IssueEvent): Promise<void> {
+    const events = this.events.get(key) || [];
+    events.push(event);
+    this.events.set(key, events);
+  }
+
+  async getEvents(key: string): Promise<IssueEvent[]> {
+    return [...(this.events.get(key) || [])];
+  }
+
+  async loadQueue(): Promise<QueuedIssue[]> {
+    return Array.from(this.queue.values()).map(deserializeQueueItem);
+  }
+
+  async saveQueueItem(key: string, item: QueuedIssue): Promise<void> {
+    this.queue.set(key, JSON.stringify(item));
+  }
+
+  async deleteQueueItem(key: string): Promise<void> {
+    this.queue.delete(key);
+  }
+
+  async loadCursors(namespace: string): Promise<Map<string, number>> {
+    return new Map(this.cursors.get(namespace) || []);
+  }
+
+  async saveCursor(namespace: string, key: string, value: number): Promise<void> {
+    if (!this.cursors.has(namespace)) {
+      this.cursors.set(namespace, new Map());
+    }
+    this.cursors.get(namespace)!.set(key, value);
+  }
+
+  async deleteCursor(namespace: string, key: string): Promise<void> {
+    this.cursors.get(namespace)?.delete(key);
+  }
+
+  async loadUsage(): Promise<UsageRecord[]> {
+    return Array.from(this.usage.values(), record => ({ ...record }));
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    const key = `${record.day} ${record.issueKey}`;
+    const existing = this.usage.get(key);
+    this.usage.set(key, existing ? {
+      ...existing,
+      inputTokens: existing.inputTokens + record.inputTokens,
+      outputTokens: existing.outputTokens + record.outputTokens,
+      costUsd: existing.costUsd + record.costUsd,
+      invocations: existing.invocations + record.invocations
+    } : { ...record });
+  }
+}
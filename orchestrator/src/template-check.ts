@@ -0,0 +1,260 @@
+/**
+ * Template Check
+ * Checks prompt and PR templates against the variables the agent renders them with, so a
+ * misspelt variable or partial fails when the config is loaded instead of silently
+ * rendering as nothing. Templates are Handlebars, rendered by the agent (agent/src/template.ts).
+ */
+
+import Handlebars from 'handlebars';
+
+/**
+ * The variables a template may use: `true` for a value (or a list of values), or the
+ * fields of an object (or of each item in a list of objects)
+ */
+export type TemplateVariables = { [name: string]: true | TemplateVariables };
+
+// Variables every prompt template gets (see agent/src/prompt-context.ts)
+export const PROMPT_VARIABLES: TemplateVariables = {
+  issue_title: true,
+  issue_body: true,
+  issue_number: true,
+  issue_author: true,
+  repo_owner: true,
+  repo_name: true,
+  branch_name: true,
+  trigger_author: true,
+  labels: true,
+  comments: { author: true, body: true, created_at: true },
+  linked_issues: { repo: true, number: true, title: true, state: true, url: true, is_pull_request: true },
+  languages: true,
+  file_tree: true
+};
+
+export const REVIEW_FEEDBACK_VARIABLES: TemplateVariables = { ...PROMPT_VARIABLES, feedback: true };
+
+// Variables PR title, body and commit message templates get (see agent/src/pr-composer.ts)
+export const PR_TEMPLATE_VARIABLES: TemplateVariables = {
+  summary: true,
+  headline: true,
+  files: true,
+  diff_stat: true,
+  tests: true,
+  validation: true,
+  pr_template: true,
+  issue_title: true,
+  issue_body: true,
+  issue_number: true,
+  repo_owner: true,
+  repo_name: true,
+  branch_name: true
+};
+
+const BLOCK_HELPERS = ['if', 'unless', 'each', 'with'];
+const LOOP_DATA = ['index', 'first', 'last', 'key'];
+
+interface Scope {
+  variables: TemplateVariables;
+  loop: boolean;  // Inside {{#each}}, where @index and friends are set
+}
+
+interface Walk {
+  partials: Record<string, string>;
+  including: string[];  // Partials being checked, innermost last
+  errors: string[];
+}
+
+/**
+ * Check a template, returning a description of each problem (none if it is fine)
+ */
+export function checkTemplate(
+  template: string,
+  variables: TemplateVariables,
+  partials: Record<string, string> = {}
+): string[] {
+  const walk: Walk = { partials, including: [], errors: [] };
+  checkSource(template, [{ variables, loop: false }], walk);
+  return walk.errors;
+}
+
+function checkSource(source: string, scopes: Scope[], walk: Walk): void {
+  let program: hbs.AST.Program;
+  try {
+    program = Handlebars.parse(source);
+  } catch (error) {
+    // "Parse error on line 3:", a snippet of the template and the tokens the parser expected
+    const message = String(error instanceof Error ? error.message : error);
+    const [first] = message.split('\n');
+    const got = message.match(/got '(\w+)'$/)?.[1];
+    if (!got) {
+      report(walk, first);
+    } else {
+      report(walk, `${first.replace(/:$/, '')}: unexpected ${got === 'EOF' ? 'end of template (is a block left open?)' : got}`);
+    }
+    return;
+  }
+  checkProgram(program, scopes, walk);
+}
+
+function checkProgram(program: hbs.AST.Program | undefined, scopes: Scope[], walk: Walk): void {
+  for (const statement of program?.body || []) {
+    checkStatement(statement, scopes, walk);
+  }
+}
+
+function checkStatement(statement: hbs.AST.Statement, scopes: Scope[], walk: Walk): void {
+  const line = statement.loc?.start.line;
+
+  switch (statement.type) {
+    case 'MustacheStatement': {
+      const mustache = statement as hbs.AST.MustacheStatement;
+      if (mustache.params.length > 0 || mustache.hash) {
+        report(walk, `unknown helper "${describe(mustache.path)}"`, line);
+      } else if (mustache.path.type === 'PathExpression') {
+        checkPath(mustache.path as hbs.AST.PathExpression, scopes, walk, line);
+      }
+      break;
+    }
+
+    case 'BlockStatement': {
+      const block = statement as hbs.AST.BlockStatement;
+      const helper = block.path.original;
+      if (!BLOCK_HELPERS.includes(helper) || block.params.length !== 1) {
+        report(walk, BLOCK_HELPERS.includes(helper)
+          ? `{{#${helper}}} needs exactly one variable`
+          : `unknown block helper "#${helper}" (use ${BLOCK_HELPERS.map(name => `#${name}`).join(', ')})`, line);
+        break;
+      }
+
+      const target = checkExpression(block.params[0], scopes, walk, line);
+      if (helper === 'each' || helper === 'with') {
+        const inner: Scope = { variables: target === true ? {} : target || {}, loop: helper === 'each' };
+        checkProgram(block.program, [...scopes, inner], walk);
+      } else {
+        checkProgram(block.program, scopes, walk);
+      }
+      checkProgram(block.inverse, scopes, walk);
+      break;
+    }
+
+    case 'PartialStatement':
+      checkPartial(statement as hbs.AST.PartialStatement, scopes, walk, line);
+      break;
+
+    case 'ContentStatement':
+    case 'CommentStatement':
+      break;
+
+    default:
+      // Partial blocks and decorators
+      report(walk, `${statement.type} isn't supported`, line);
+  }
+}
+
+/**
+ * Check a partial in the context it is included in
+ */
+function checkPartial(partial: hbs.AST.PartialStatement, scopes: Scope[], walk: Walk, line?: number): void {
+  if (partial.name.type !== 'PathExpression') {
+    report(walk, 'dynamic partials aren\'t supported', line);
+    return;
+  }
+
+  const name = (partial.name as hbs.AST.PathExpression).original;
+  const source = walk.partials[name];
+  if (source === undefined) {
+    const available = Object.keys(walk.partials);
+    report(walk, `unknown partial "${name}" (available: ${available.join(', ') || 'none'})`, line);
+    return;
+  }
+  if (walk.including.includes(name)) {
+    report(walk, `partial "${name}" includes itself`, line);
+    return;
+  }
+
+  // A context argument or hash arguments change what the partial sees
+  const current = scopes[scopes.length - 1];
+  let variables = current.variables;
+  if (partial.params.length > 0) {
+    const target = checkExpression(partial.params[0], scopes, walk, line);
+    variables = target === true ? {} : target || {};
+  }
+  for (const pair of partial.hash?.pairs || []) {
+    const value = checkExpression(pair.value, scopes, walk, line);
+    variables = { ...variables, [pair.key]: value || true };
+  }
+
+  walk.including.push(name);
+  checkSource(source, [...scopes.slice(0, -1), { ...current, variables }], walk);
+  walk.including.pop();
+}
+
+/**
+ * Check a helper argument. Returns what a variable holds, or undefined for literals and errors.
+ */
+function checkExpression(
+  expression: hbs.AST.Expression,
+  scopes: Scope[],
+  walk: Walk,
+  line?: number
+): true | TemplateVariables | undefined {
+  if (expression.type === 'PathExpression') {
+    return checkPath(expression as hbs.AST.PathExpression, scopes, walk, line);
+  }
+  if (expression.type === 'SubExpression') {
+    report(walk, `unknown helper "${describe((expression as hbs.AST.SubExpression).path)}"`, line);
+  }
+  return undefined;
+}
+
+/**
+ * Check a variable reference. Returns what it holds, or undefined if it doesn't exist.
+ */
+function checkPath(
+  path: hbs.AST.PathExpression,
+  scopes: Scope[],
+  walk: Walk,
+  line?: number
+): true | TemplateVariables | undefined {
+  let parts = path.parts;
+  let scope: Scope | undefined = scopes[scopes.length - 1 - path.depth];
+
+  if (path.data) {
+    if (parts[0] === 'root') {
+      scope = scopes[0];
+      parts = parts.slice(1);
+    } else if (LOOP_DATA.includes(parts[0]) && parts.length === 1) {
+      if (!scopes.some(s => s.loop)) {
+        report(walk, `"${path.original}" can only be used inside {{#each}}`, line);
+        return undefined;
+      }
+      return true;
+    } else {
+      report(walk, `unknown variable "${path.original}"`, line);
+      return undefined;
+    }
+  }
+
+  if (!scope) {
+    report(walk, `"${path.original}" refers above the top of the template`, line);
+    return undefined;
+  }
+
+  let value: true | TemplateVariables = scope.variables;
+  for (const part of parts) {
+    if (value === true || !Object.prototype.hasOwnProperty.call(value, part)) {
+      report(walk, `unknown variable "${path.original}"`, line);
+      return undefined;
+    }
+    value = value[part];
+  }
+  return value;
+}
+
+function describe(expression: hbs.AST.Expression): string {
+  return (expression as hbs.AST.PathExpression).original ?? String((expression as any).value);
+}
+
+function report(walk: Walk, problem: string, line?: number): void {
+  const where = walk.including.length > 0 ? `in partial "${walk.including[walk.including.length - 1]}", ` : '';
+  walk.errors.push(`${where}${problem}${line ? ` (line ${line})` : ''}`);
+}
@@ -13,9 +13,72 @@ export interface ActiveIssue {
   status: ActiveIssueStatus;
   branchName: string;
   prNumber?: number;
+  promptTemplate?: string;  // Named prompt template chosen with `use template=<name>`
+  triggerAuthor?: string;   // Who gave the command that started the agent
   startedAt: Date;
   lastHeartbeat?: Date;
   error?: string;
+  usage?: RunUsage;         // Claude usage so far, as last reported by the agent
+  lastActivity?: string;    // What Claude last did, e.g. "Edit src/app.ts"
+  repoSettings?: RepoSettings;  // From the repo's .autogas.yml when the agent started
+}
+
+/**
+ * Settings a repository overrides with its own .autogas.yml (a safe subset of RepoConfig)
+ */
+export interface RepoSettings {
+  promptTemplate?: string;   // Name of a configured prompt template
+  validate?: string[];       // Validation commands
+  allowedPaths?: string[];   // Globs the agent may change; other changes are reverted
+  baseBranch?: string;       // Branch to work from and open the PR against
+  labels?: string[];
+  reviewers?: string[];
+  teamReviewers?: string[];
+  profile?: string;          // Name of a configured container profile
+}
+
+/**
+ * Something Claude Code did in an agent container, forwarded by the agent as it runs
+ */
+export type AgentEvent = { at: string } & (
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; tool: string; summary: string }
+  | { type: 'file_edit'; tool: string; path: string }
+  | { type: 'result'; success: boolean; result: string; turns?: number; durationMs?: number }
+);
+
+/**
+ * Claude usage accumulated over a run (or an issue, repo or day in the stats)
+ */
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  invocations: number;  // Claude executions
+}
+
+/**
+ * Limits on one agent run. Enforced by the agent; the orchestrator stops the
+ * container if the agent overruns them.
+ */
+export interface RunBudget {
+  maxRuntimeMinutes?: number;  // Wall-clock life of the container, including waiting for reviews
+  maxDevelopMinutes?: number;  // One Claude execution developing the solution
+  maxIterateMinutes?: number;  // One Claude execution addressing review feedback
+  maxIterations?: number;      // Review iterations
+  maxTokens?: number;          // Input + output tokens across all Claude executions (unlimited if unset)
+  maxCostUsd?: number;         // Spend across all Claude executions (unlimited if unset)
+}
+
+export interface QueuedIssue {
+  issue: GitHubIssue;
+  triggerCommentId: number;
+  promptTemplate?: string;    // Named prompt template to start the agent with
+  triggerAuthor?: string;     // Who gave the command
+  priority: number;           // Higher runs first; FIFO within the same priority
+  enqueuedAt: Date;
+  statusCommentId?: number;   // The "Queue position" comment, edited as the issue moves up
+  position?: number;          // Position last reported in that comment
 }
 
 export type ActiveIssueStatus =
@@ -29,7 +92,30 @@ export type ActiveIssueStatus =
   | 'iterating'
   | 'done'
   | 'error'
-  | 'aborted';
+  | 'aborted'
+  | 'budget_exceeded';
+
+export const ACTIVE_ISSUE_STATUSES: ActiveIssueStatus[] = [
+  'starting',
+  'cloning',
+  'analyzing',
+  'developing',
+  'testing',
+  'pr_created',
+  'awaiting_review',
+  'iterating',
+  'done',
+  'error',
+  'aborted',
+  'budget_exceeded'
+];
+
+/**
+ * Check whether a value is a valid ActiveIssueStatus
+ */
+export function isActiveIssueStatus(value: unknown): value is ActiveIssueStatus {
+  return typeof value === 'string' && (ACTIVE_ISSUE_STATUSES as string[]).includes(value);
+}
 
 export interface GitHubIssue {
   owner: string;
@@ -38,6 +124,7 @@ export interface GitHubIssue {
   title: string;
   body: string;
   htmlUrl: string;
+  state?: 'open' | 'closed';
   user: {
     login: string;
   };
@@ -97,6 +184,81 @@ export interface RepoConfig {
   triggerComment: string;
   enabled: boolean;
   promptTemplate?: string;  // Path to custom prompt template
+  priority?: number;        // Queue priority for this repo's issues (higher runs first)
+  access?: RepoAccessConfig;  // Who may give the agent commands (default: write access)
+  ignoreUsers?: string[];   // Never act on comments or reviews from these users
+  trustedBots?: string[];   // Bot accounts whose comments and reviews are acted on
+  profile?: string;         // Named container profile (containers.profiles); global defaults if unset
+  maxConcurrent?: number;   // Cap on this repo's running agents (default: containers.maxPerRepo)
+  budget?: RunBudget;       // Overrides the global budget field by field
+  pullRequests?: PullRequestTemplates;  // Overrides the global PR templates field by field
+  prWorkflow?: PRWorkflow;  // Overrides the global PR workflow field by field
+  validate?: string[];      // Validation commands, e.g. [npm test, npm run lint]; a repo's .autogas.yml takes precedence
+  validation?: ValidationConfig;  // Overrides the global validation settings field by field
+  allowedPaths?: string[];  // Globs the agent may change (anything if unset); other changes are reverted
+  baseBranch?: string;      // Branch to work from and open PRs against (default: the repo's default branch)
+}
+
+export type RepoPermission = 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+export const REPO_PERMISSIONS: RepoPermission[] = ['read', 'triage', 'write', 'maintain', 'admin'];
+
+export interface RepoAccessConfig {
+  users?: string[];             // Always allowed
+  teams?: string[];             // "org/team-slug"; active members are always allowed
+  permission?: RepoPermission;  // Minimum repository permission for everyone else (default: write)
+  orgs?: string[];              // If set, everyone else must also belong to one of these orgs
+}
+
+/**
+ * Container settings for a group of repos (e.g. a toolchain). Unset fields fall back
+ * to the global `containers` settings.
+ */
+export interface ContainerProfile {
+  image?: string;
+  memoryLimit?: string;
+  cpuLimit?: string;
+  network?: string;
+  env?: Record<string, string>;  // Merged over containers.env
+  volumes?: string[];            // "source:/target[:ro]", e.g. a named volume for package caches
+}
+
+/**
+ * Running agents against the cap that applies (limit unset = unlimited)
+ */
+export interface SlotAllocation {
+  active: number;
+  limit?: number;
+}
+
+/**
+ * Templates the agent renders the PR title, PR body and commit message from
+ * (variables: {{summary}}, {{files}}, {{tests}}, ...). Unset ones use the agent's defaults.
+ */
+export interface PullRequestTemplates {
+  title?: string;
+  body?: string;           // Inline, or a path to a file relative to the config file
+  commitMessage?: string;
+}
+
+/**
+ * How agents open PRs and hand them to reviewers
+ */
+export interface PRWorkflow {
+  draft?: boolean;           // Open a draft PR at Claude's first commit; mark it ready once validated
+  reviewers?: string[];      // Requested when the PR becomes ready for review
+  teamReviewers?: string[];  // Team slugs ("org/team" or "team")
+  labels?: string[];         // Added when the PR becomes ready for review
+  assignees?: string[];
+}
+
+/**
+ * How agents check their work (tests, lint, typecheck) before handing it to reviewers
+ */
+export interface ValidationConfig {
+  commands?: string[];       // Run in order; detected from the repo's build files if unset
+  timeoutMinutes?: number;   // Per command (default 10)
+  maxFixAttempts?: number;   // Times Claude is asked to fix failures (default 2; 0 disables fixing)
 }
 
 export interface PromptTemplates {
@@ -108,27 +270,78 @@ export interface PromptTemplates {
 
 export interface OrchestratorConfig {
   github: {
-    token: string;
+    token?: string;          // Personal access token (unless a GitHub App is configured)
     webhookSecret: string;
+    app?: {
+      id: string | number;   // GitHub App ID
+      key: string;           // PEM private key (inline, or loaded from a file path in the config)
+    };
   };
   repos: RepoConfig[];
   claude: {
     apiKey: string;
     maxTokens: number;
     prompts?: PromptTemplates;
+    partials?: Record<string, string>;  // Shared {{> name}} snippets from prompts/partials
   };
   containers: {
     maxConcurrent: number;
+    maxPerRepo?: number;     // Default cap on running agents per repo (unlimited if unset)
+    maxPerOwner?: number;    // Default cap on running agents per owner/org (unlimited if unset)
+    ownerLimits?: Record<string, number>;  // Per-owner caps overriding maxPerOwner
     baseImage: string;
     network: string;
     memoryLimit: string;
     cpuLimit: string;
     env?: Record<string, string>;  // Additional env vars passed to all containers
+    profiles?: Record<string, ContainerProfile>;
   };
+  budget: RunBudget;  // Default limits for every agent run
+  pullRequests?: PullRequestTemplates;
+  prWorkflow?: PRWorkflow;
+  validation?: ValidationConfig;
   server: {
     port: number;
     publicUrl: string;
+    agentSecret: string;  // Signs the per-run tokens agents use to call the orchestrator API
+    operatorToken?: string;  // Bearer token for the operator endpoints (/api/stats); unset disables them
+  };
+  state: {
+    driver: 'sqlite' | 'redis' | 'memory';
+    path: string;   // SQLite database file
+    url?: string;   // Redis connection URL
   };
+  artifacts: {
+    dir: string;    // Where agent transcripts are kept
+  };
+}
+
+/**
+ * Commands users can give the agent in issue and PR comments (`@bot <command> [args]`)
+ */
+export type CommentCommandName =
+  | 'take'
+  | 'stop'
+  | 'retry'
+  | 'status'
+  | 'rebase'
+  | 'use'
+  | 'iterate'
+  | 'help';
+
+export interface ParsedCommand {
+  name: CommentCommandName | 'unknown';
+  verb: string;                  // The command word as typed
+  args: Record<string, string>;  // key=value arguments
+  text: string;                  // Remaining free text, including any following lines
+}
+
+export interface CommandContext {
+  issue: GitHubIssue;      // The issue or PR the command was posted on
+  isPullRequest: boolean;
+  commentId: number;       // 0 when the command came from the issue body
+  author: string;
+  command: ParsedCommand;
 }
 
 export interface WebhookEvent {
@@ -137,9 +350,25 @@ export interface WebhookEvent {
   payload: any;
 }
 
+/**
+ * Commands the orchestrator can push to a running agent
+ */
+export type AgentCommand =
+  | { type: 'feedback'; reviewId?: number; reviewer: string; body: string }
+  | { type: 'abort'; reason: string }
+  | { type: 'approved'; reviewer: string }
+  | { type: 'rebase'; base?: string }
+  | { type: 'extend-timeout'; minutes: number };
+
+export interface QueuedCommand {
+  id: number;
+  issuedAt: string;
+  command: AgentCommand;
+}
+
 export interface StatusUpdate {
   containerId: string;
-  status: ActiveIssueStatus;
+  status: ActiveIssueStatus | 'heartbeat';  // heartbeat = liveness ping only, no status change
   message: string;
   details: Record<string, any>;
   timestamp: string;
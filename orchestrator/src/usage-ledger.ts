@@ -0,0 +1,121 @@
+/**
+ * Usage Ledger
+ * Accounts for Claude token usage and cost per issue, repo and day. Agents report their
+ * running totals; the ledger records what was added since the last report, in memory and
+ * through to the StateStore so totals outlive the issue and survive restarts.
+ */
+
+import { RunUsage } from './types';
+import { MemoryStateStore, StateStore, UsageRecord } from './state-store';
+import { logger } from './logger';
+
+export interface UsageStats {
+  total: RunUsage;
+  byIssue: Record<string, RunUsage>;  // owner/repo#number
+  byRepo: Record<string, RunUsage>;   // owner/repo
+  byDay: Record<string, RunUsage>;    // YYYY-MM-DD (UTC)
+}
+
+export class UsageLedger {
+  private records: UsageRecord[] = [];
+  private store: StateStore;
+
+  constructor(store: StateStore = new MemoryStateStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Load recorded usage from the store (call once on boot)
+   */
+  async restore(): Promise<number> {
+    this.records = await this.store.loadUsage();
+    return this.records.length;
+  }
+
+  /**
+   * Record the usage an agent added since its previous report (`previous` and
+   * `current` are the run's totals). Returns the amount added.
+   */
+  record(issueKey: string, previous: RunUsage | undefined, current: RunUsage, at: Date = new Date()): RunUsage {
+    const delta: RunUsage = {
+      inputTokens: Math.max(0, current.inputTokens - (previous?.inputTokens || 0)),
+      outputTokens: Math.max(0, current.outputTokens - (previous?.outputTokens || 0)),
+      costUsd: Math.max(0, current.costUsd - (previous?.costUsd || 0)),
+      invocations: Math.max(0, current.invocations - (previous?.invocations || 0))
+    };
+
+    if (!delta.inputTokens && !delta.outputTokens && !delta.costUsd && !delta.invocations) {
+      return delta;
+    }
+
+    const record: UsageRecord = { issueKey, day: at.toISOString().slice(0, 10), ...delta };
+    const existing = this.records.find(r => r.issueKey === record.issueKey && r.day === record.day);
+    if (existing) {
+      UsageLedger.add(existing, delta);
+    } else {
+      this.records.push({ ...record });
+    }
+
+    this.store.addUsage(record).catch(error => {
+      logger.error(`Failed to persist usage for ${issueKey}`, { error });
+    });
+
+    return delta;
+  }
+
+  /**
+   * Everything an issue has cost, across all its runs
+   */
+  getIssueTotal(issueKey: string): RunUsage {
+    const total = UsageLedger.empty();
+    for (const record of this.records) {
+      if (record.issueKey === issueKey) {
+        UsageLedger.add(total, record);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Totals per issue, repo and day, optionally only for the last `days` days
+   */
+  getStats(days?: number): UsageStats {
+    const since = days ? new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10) : '';
+    const stats: UsageStats = { total: UsageLedger.empty(), byIssue: {}, byRepo: {}, byDay: {} };
+
+    for (const record of this.records) {
+      if (record.day < since) {
+        continue;
+      }
+
+      const repo = record.issueKey.split('#')[0];
+      UsageLedger.add(stats.total, record);
+      UsageLedger.add(stats.byIssue[record.issueKey] = stats.byIssue[record.issueKey] || UsageLedger.empty(), record);
+      UsageLedger.add(stats.byRepo[repo] = stats.byRepo[repo] || UsageLedger.empty(), record);
+      UsageLedger.add(stats.byDay[record.day] = stats.byDay[record.day] || UsageLedger.empty(), record);
+    }
+
+    return stats;
+  }
+
+  /**
+   * One-line summary for issue comments
+   */
+  static format(usage: RunUsage): string {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    const runs = usage.invocations === 1 ? '1 Claude run' : `${usage.invocations} Claude runs`;
+    return `💰 Cost: $${usage.costUsd.toFixed(2)} for ${tokens.toLocaleString('en-US')} tokens ` +
+      `(${usage.inputTokens.toLocaleString('en-US')} in, ${usage.outputTokens.toLocaleString('en-US')} out) over ${runs}.`;
+  }
+
+  private static empty(): RunUsage {
+    return { inputTokens: 0, outputTokens: 0, costUsd: 0, invocations: 0 };
+  }
+
+  private static add(total: RunUsage, usage: RunUsage): void {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.costUsd += usage.costUsd;
+    total.invocations += usage.invocations;
+  }
+}
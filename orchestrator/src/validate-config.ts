@@ -0,0 +1,45 @@
+/**
+ * validate-config
+ * Checks a configuration file (with its .local.yaml overrides and the files it references)
+ * without starting the orchestrator. Exits non-zero and lists every problem if it is invalid.
+ *
+ * Usage: npm run validate-config [-- path/to/config.yaml]
+ */
+
+import dotenv from 'dotenv';
+import { ConfigError, loadConfigWithDefaults } from './config';
+
+// The orchestrator reads the same files, so ${VAR} references resolve the same way
+dotenv.config({ path: '.env' });
+dotenv.config({ path: '.env.local', override: true });
+
+export function validateConfigFile(configPath: string = 'config/config.yaml'): boolean {
+  try {
+    const config = loadConfigWithDefaults(configPath);
+    const repos = config.repos.map(repo => `${repo.owner}/${repo.name}${repo.enabled ? '' : ' (disabled)'}`);
+    const prompts = Object.keys(config.claude.prompts || {});
+
+    console.log(`✅ ${configPath} is valid`);
+    console.log(`   Repos: ${repos.join(', ')}`);
+    console.log(`   Prompt templates: ${prompts.join(', ')}`);
+    if (config.claude.partials && Object.keys(config.claude.partials).length > 0) {
+      console.log(`   Prompt partials: ${Object.keys(config.claude.partials).join(', ')}`);
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${configPath} has ${error.errors.length} problem${error.errors.length === 1 ? '' : 's'}:`);
+      for (const problem of error.errors) {
+        console.error(`   - ${problem}`);
+      }
+    } else {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    }
+    return false;
+  }
+}
+
+// CLI entry point
+if (require.main === module) {
+  process.exit(validateConfigFile(process.argv[2]) ? 0 : 1);
+}
@@ -3,15 +3,39 @@
  * Express server that receives GitHub webhook events
  */
 
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import { GitHubClient } from './github-client';
-import { OrchestratorConfig, WebhookEvent } from './types';
+import { AgentAuth } from './agent-auth';
+import { CommandChannel } from './command-channel';
+import { CommandParser } from './commands';
+import { Identity } from './identity';
+import { ScopedToken } from './github-auth';
+import { SecretsBroker } from './secrets-broker';
+import { parseAgentEvent } from './agent-events';
+import {
+  AgentEvent,
+  CommandContext,
+  GitHubIssue,
+  OrchestratorConfig,
+  StatusUpdate,
+  WebhookEvent,
+  isActiveIssueStatus
+} from './types';
 import { logger } from './logger';
 
 export interface WebhookHandlers {
-  onIssueTriggered: (issue: any, commentId: number) => Promise<void>;
+  onCommand: (context: CommandContext) => Promise<void>;
   onPRClosed: (owner: string, repo: string, prNumber: number) => Promise<void>;
   onPRReview: (owner: string, repo: string, prNumber: number, review: any) => Promise<void>;
+  onStatusUpdate: (update: StatusUpdate) => Promise<boolean>;  // false if the container is unknown
+  onGitHubTokenRequest: (containerId: string) => Promise<ScopedToken | null>;  // null if the container is unknown
+  onAgentEvents: (containerId: string, events: AgentEvent[], dropped: number) => boolean;  // false if the container is unknown
+  onTranscript: (containerId: string, content: string) => Promise<boolean>;  // false if the container is unknown
+  onStats: (days?: number) => Record<string, any>;  // usage limited to the last `days` days if given
+}
+
+export interface WebhookServerOptions {
+  webhooks: boolean;  // Accept GitHub webhooks (false in polling mode: agent API only)
 }
 
 export class WebhookServer {
@@ -19,24 +43,52 @@ export class WebhookServer {
   private githubClient: GitHubClient;
   private config: OrchestratorConfig;
   private handlers: WebhookHandlers;
+  private options: WebhookServerOptions;
+  private agentAuth: AgentAuth;
+  private commandChannel: CommandChannel;
+  private parser: CommandParser = new CommandParser();
+  private identity: Identity;
+  private secretsBroker: SecretsBroker;
 
   constructor(
     githubClient: GitHubClient,
     config: OrchestratorConfig,
-    handlers: WebhookHandlers
+    handlers: WebhookHandlers,
+    agentAuth: AgentAuth,
+    commandChannel: CommandChannel,
+    identity: Identity,
+    secretsBroker: SecretsBroker,
+    options: WebhookServerOptions = { webhooks: true }
   ) {
     this.githubClient = githubClient;
     this.config = config;
+    this.agentAuth = agentAuth;
+    this.commandChannel = commandChannel;
+    this.identity = identity;
+    this.secretsBroker = secretsBroker;
     this.handlers = handlers;
+    this.options = options;
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
   }
 
+  /**
+   * Use a reloaded configuration (repos and their trigger comments) from now on.
+   * The port and public URL only change on restart.
+   */
+  updateConfig(config: OrchestratorConfig): void {
+    this.config = config;
+  }
+
   private setupMiddleware(): void {
     // Raw body parser for signature verification
     this.app.use('/webhook/github', express.raw({ type: 'application/json' }));
 
+    // Agents send event batches and whole transcripts, larger than the default body limit
+    this.app.use('/api/agents/:containerId/events', express.json({ limit: '2mb' }));
+    this.app.use('/api/agents/:containerId/transcript', express.text({ type: () => true, limit: '100mb' }));
+
     // JSON parser for other routes
     this.app.use(express.json());
   }
@@ -52,33 +104,293 @@ export class WebhookServer {
     });
 
     // Status endpoint for agents to report back
-    this.app.post('/api/status', async (req: Request, res: Response) => {
-      try {
-        const statusUpdate = req.body;
-        logger.info('Status update received', {
-          containerId: statusUpdate.container_id,
-          status: statusUpdate.status,
-          message: statusUpdate.message
-        });
-        res.json({ received: true });
-      } catch (error) {
-        logger.error('Error processing status update', { error });
-        res.status(500).json({ error: 'Failed to process status' });
-      }
-    });
+    this.app.post('/api/status', this.requireAgentToken.bind(this), this.handleStatusUpdate.bind(this));
+
+    // Command channel: agents long-poll for feedback, abort, rebase, ...
+    this.app.get(
+      '/api/agents/:containerId/commands',
+      this.requireAgentToken.bind(this),
+      this.handleCommandPoll.bind(this)
+    );
+
+    // One-time hand-over of the credentials a container starts with
+    this.app.post(
+      '/api/agents/:containerId/secrets',
+      this.requireClaimToken.bind(this),
+      this.handleSecretsClaim.bind(this)
+    );
+
+    // Fresh GitHub token for the agent's repository (installation tokens expire after an hour)
+    this.app.get(
+      '/api/agents/:containerId/github-token',
+      this.requireAgentToken.bind(this),
+      this.handleGitHubTokenRequest.bind(this)
+    );
+
+    // Claude Code events, forwarded by agents while Claude runs
+    this.app.post(
+      '/api/agents/:containerId/events',
+      this.requireAgentToken.bind(this),
+      this.handleAgentEvents.bind(this)
+    );
+
+    // Full Claude Code transcript of a run, kept as an artifact
+    this.app.put(
+      '/api/agents/:containerId/transcript',
+      this.requireAgentToken.bind(this),
+      this.handleTranscriptUpload.bind(this)
+    );
 
     // GitHub webhook endpoint
-    this.app.post('/webhook/github', this.handleGitHubWebhook.bind(this));
+    if (this.options.webhooks) {
+      this.app.post('/webhook/github', this.handleGitHubWebhook.bind(this));
+    }
 
-    // Stats endpoint
-    this.app.get('/api/stats', (_req: Request, res: Response) => {
+    // Stats endpoint: agent slots, queue and Claude usage (?days=N limits usage to recent days)
+    this.app.get('/api/stats', this.requireOperatorToken.bind(this), (req: Request, res: Response) => {
+      const days = parseInt(String(req.query.days || ''), 10);
       res.json({
         version: '1.0.0',
-        orchestrator: 'autogen'
+        orchestrator: 'autogen',
+        ...this.handlers.onStats(days > 0 ? days : undefined)
       });
     });
   }
 
+  /**
+   * Reject agent API calls that don't carry a valid run token for the container they act on
+   */
+  private requireAgentToken(req: Request, res: Response, next: NextFunction): void {
+    this.checkAgentToken(req, res, next, (containerId, token) => this.agentAuth.verifyToken(containerId, token));
+  }
+
+  /**
+   * Reject operator API calls (usage and queue details) without the operator token.
+   * They are refused outright if no operator token is configured.
+   */
+  private requireOperatorToken(req: Request, res: Response, next: NextFunction): void {
+    const expected = this.config.server.operatorToken;
+    if (!expected) {
+      res.status(403).json({ error: 'Set server.operator_token to enable this endpoint' });
+      return;
+    }
+
+    const token = AgentAuth.getBearerToken(req);
+    if (!token) {
+      res.status(401).json({ error: 'Missing operator token' });
+      return;
+    }
+
+    if (!AgentAuth.matches(expected, token)) {
+      logger.warn('Operator API call with invalid token', { path: req.path });
+      res.status(403).json({ error: 'Invalid operator token' });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Reject secrets claims that don't carry the container's claim token
+   */
+  private requireClaimToken(req: Request, res: Response, next: NextFunction): void {
+    this.checkAgentToken(req, res, next, (containerId, token) => this.agentAuth.verifyClaimToken(containerId, token));
+  }
+
+  private checkAgentToken(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    verify: (containerId: string, token: string) => boolean
+  ): void {
+    const containerId = req.params.containerId || req.body?.container_id;
+    const token = AgentAuth.getBearerToken(req);
+
+    if (!token) {
+      logger.warn('Agent API call without token', { path: req.path, containerId });
+      res.status(401).json({ error: 'Missing agent token' });
+      return;
+    }
+
+    if (typeof containerId !== 'string' || !verify(containerId, token)) {
+      logger.warn('Agent API call with invalid token', { path: req.path, containerId });
+      res.status(403).json({ error: 'Invalid agent token' });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Handle a status report from an agent container
+   * Accepts the snake_case payload sent by the agent and entrypoint.sh
+   */
+  private async handleStatusUpdate(req: Request, res: Response): Promise<void> {
+    const body = req.body || {};
+
+    if (typeof body.container_id !== 'string' || !body.container_id) {
+      res.status(400).json({ error: 'container_id is required' });
+      return;
+    }
+
+    // "heartbeat" only refreshes liveness; everything else must be a known status
+    if (body.status !== 'heartbeat' && !isActiveIssueStatus(body.status)) {
+      logger.warn('Status update with invalid status', { containerId: body.container_id, status: body.status });
+      res.status(400).json({ error: `Invalid status: ${body.status}` });
+      return;
+    }
+
+    const update: StatusUpdate = {
+      containerId: body.container_id,
+      status: body.status,
+      message: typeof body.message === 'string' ? body.message : '',
+      details: body.details && typeof body.details === 'object' ? body.details : {},
+      timestamp: body.timestamp || new Date().toISOString()
+    };
+
+    logger.info('Status update received', {
+      containerId: update.containerId,
+      status: body.status,
+      message: update.message
+    });
+
+    try {
+      const known = await this.handlers.onStatusUpdate(update);
+      if (!known) {
+        res.status(404).json({ error: 'Unknown container' });
+        return;
+      }
+      res.json({ received: true });
+    } catch (error) {
+      logger.error('Error processing status update', { error });
+      res.status(500).json({ error: 'Failed to process status' });
+    }
+  }
+
+  /**
+   * Long-poll for commands addressed to a container
+   * Query: after=<last command id seen> (acknowledges earlier ones), wait=<seconds, max 60>
+   */
+  private async handleCommandPoll(req: Request, res: Response): Promise<void> {
+    const containerId = req.params.containerId;
+    const after = parseInt(String(req.query.after || '0'), 10) || 0;
+    const waitSeconds = Math.min(Math.max(parseInt(String(req.query.wait || '30'), 10) || 0, 0), 60);
+
+    // Stop waiting if the agent disconnects
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    try {
+      const commands = await this.commandChannel.receive(containerId, after, waitSeconds * 1000, abort.signal);
+      if (!res.headersSent && !abort.signal.aborted) {
+        res.json({ commands });
+      }
+    } catch (error) {
+      logger.error('Error delivering commands', { containerId, error });
+      res.status(500).json({ error: 'Failed to deliver commands' });
+    }
+  }
+
+  /**
+   * Hand a container its start-up credentials, including its run token. They can be
+   * claimed only once, so a second caller holding the claim token gets nothing.
+   */
+  private handleSecretsClaim(req: Request, res: Response): void {
+    const containerId = req.params.containerId;
+    const secrets = this.secretsBroker.claim(containerId);
+
+    if (!secrets) {
+      logger.warn('Rejected secrets claim: already claimed or never issued', { containerId });
+      res.status(410).json({ error: 'Secrets already claimed or expired' });
+      return;
+    }
+
+    logger.info('Container claimed its secrets', { containerId });
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      anthropic_api_key: secrets.anthropicApiKey,
+      github_token: secrets.githubToken.token,
+      github_token_expires_at: secrets.githubToken.expiresAt?.toISOString() || null,
+      orchestrator_token: this.agentAuth.issueToken(containerId)
+    });
+  }
+
+  /**
+   * Issue a GitHub token for the repository a container works on
+   */
+  private async handleGitHubTokenRequest(req: Request, res: Response): Promise<void> {
+    const containerId = req.params.containerId;
+
+    try {
+      const token = await this.handlers.onGitHubTokenRequest(containerId);
+      if (!token) {
+        res.status(404).json({ error: 'Unknown container' });
+        return;
+      }
+      res.json({
+        token: token.token,
+        expires_at: token.expiresAt?.toISOString() || null
+      });
+    } catch (error) {
+      logger.error('Error issuing GitHub token', { containerId, error });
+      res.status(500).json({ error: 'Failed to issue GitHub token' });
+    }
+  }
+
+  /**
+   * Accept a batch of Claude Code events from a container
+   * Body: { events: [...], dropped: <events the agent had to discard> }
+   */
+  private handleAgentEvents(req: Request, res: Response): void {
+    const containerId = req.params.containerId;
+    const body = req.body || {};
+
+    if (!Array.isArray(body.events)) {
+      res.status(400).json({ error: 'events must be an array' });
+      return;
+    }
+
+    const events = body.events
+      .map(parseAgentEvent)
+      .filter((event: AgentEvent | null): event is AgentEvent => event !== null);
+    const dropped = typeof body.dropped === 'number' && body.dropped > 0 ? body.dropped : 0;
+
+    try {
+      if (!this.handlers.onAgentEvents(containerId, events, dropped)) {
+        res.status(404).json({ error: 'Unknown container' });
+        return;
+      }
+      res.json({ received: events.length });
+    } catch (error) {
+      logger.error('Error processing agent events', { containerId, error });
+      res.status(500).json({ error: 'Failed to process events' });
+    }
+  }
+
+  /**
+   * Store the transcript a container uploaded (JSONL, replaces earlier uploads of the run)
+   */
+  private async handleTranscriptUpload(req: Request, res: Response): Promise<void> {
+    const containerId = req.params.containerId;
+
+    if (typeof req.body !== 'string' || !req.body) {
+      res.status(400).json({ error: 'Transcript body is required' });
+      return;
+    }
+
+    try {
+      const known = await this.handlers.onTranscript(containerId, req.body);
+      if (!known) {
+        res.status(404).json({ error: 'Unknown container' });
+        return;
+      }
+      res.json({ received: true });
+    } catch (error) {
+      logger.error('Error storing transcript', { containerId, error });
+      res.status(500).json({ error: 'Failed to store transcript' });
+    }
+  }
+
   /**
    * Handle incoming GitHub webhooks
    */
@@ -157,12 +469,11 @@ export class WebhookServer {
   private async handleIssuesEvent(event: WebhookEvent): Promise<void> {
     const { action, issue, repository } = event.payload;
 
-    // Only check for trigger comment when issue is opened or edited
+    // Only check for commands when issue is opened or edited
     if (action !== 'opened' && action !== 'edited') {
       return;
     }
 
-    // Check if issue body contains trigger
     const repoConfig = this.githubClient.getRepoConfig(
       repository.owner.login,
       repository.name,
@@ -173,31 +484,28 @@ export class WebhookServer {
       return; // Not a configured repo
     }
 
-    const hasTrigger = this.githubClient.isTriggerComment(issue.body || '', this.config.repos);
+    // Check if issue body contains a command
+    const command = this.parser.parse(issue.body || '', repoConfig);
 
-    if (hasTrigger && !this.githubClient.isBotComment(issue.user.login)) {
-      logger.info(`Trigger found in issue #${issue.number}`, {
+    if (command && !this.identity.shouldIgnore(issue.user, repoConfig)) {
+      logger.info(`Command found in issue #${issue.number}`, {
         repo: repository.full_name,
-        issue: issue.number
+        issue: issue.number,
+        command: command.name
       });
 
-      await this.handlers.onIssueTriggered(
-        {
-          owner: repository.owner.login,
-          repo: repository.name,
-          number: issue.number,
-          title: issue.title,
-          body: issue.body || '',
-          htmlUrl: issue.html_url,
-          user: { login: issue.user.login }
-        },
-        issue.id
-      );
+      await this.handlers.onCommand({
+        issue: this.toIssue(repository, issue),
+        isPullRequest: false,
+        commentId: 0,
+        author: issue.user.login,
+        command
+      });
     }
   }
 
   /**
-   * Handle issue_comment events
+   * Handle issue_comment events (on issues and pull requests)
    */
   private async handleIssueCommentEvent(event: WebhookEvent): Promise<void> {
     const { action, comment, issue, repository } = event.payload;
@@ -207,11 +515,6 @@ export class WebhookServer {
       return;
     }
 
-    // Skip bot comments
-    if (this.githubClient.isBotComment(comment.user.login)) {
-      return;
-    }
-
     // Check if this is a configured repo
     const repoConfig = this.githubClient.getRepoConfig(
       repository.owner.login,
@@ -223,39 +526,46 @@ export class WebhookServer {
       return;
     }
 
-    // Check for trigger comment
-    const hasTrigger = this.githubClient.isTriggerComment(comment.body, this.config.repos);
+    // Skip our own comments and those of ignored users and bots
+    if (this.identity.shouldIgnore(comment.user, repoConfig)) {
+      return;
+    }
 
-    if (hasTrigger) {
-      logger.info(`Trigger comment found in issue #${issue.number}`, {
+    const command = this.parser.parse(comment.body || '', repoConfig);
+
+    if (command) {
+      logger.info(`Command comment found in #${issue.number}`, {
         repo: repository.full_name,
         issue: issue.number,
-        comment: comment.id
+        comment: comment.id,
+        command: command.name
       });
 
-      // Add reaction to acknowledge
-      await this.githubClient.addReaction(
-        repository.owner.login,
-        repository.name,
-        comment.id,
-        'eyes'
-      );
-
-      await this.handlers.onIssueTriggered(
-        {
-          owner: repository.owner.login,
-          repo: repository.name,
-          number: issue.number,
-          title: issue.title,
-          body: issue.body || '',
-          htmlUrl: issue.html_url,
-          user: { login: issue.user.login }
-        },
-        comment.id
-      );
+      await this.handlers.onCommand({
+        issue: this.toIssue(repository, issue),
+        isPullRequest: !!issue.pull_request,
+        commentId: comment.id,
+        author: comment.user.login,
+        command
+      });
     }
   }
 
+  /**
+   * Convert a webhook issue (or PR) payload into a GitHubIssue
+   */
+  private toIssue(repository: any, issue: any): GitHubIssue {
+    return {
+      owner: repository.owner.login,
+      repo: repository.name,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body || '',
+      htmlUrl: issue.html_url,
+      user: { login: issue.user.login }
+    };
+  }
+
   /**
    * Handle pull_request events
    */
@@ -283,20 +593,28 @@ export class WebhookServer {
   private async handlePullRequestReviewEvent(event: WebhookEvent): Promise<void> {
     const { review, pull_request, repository } = event.payload;
 
-    // We care about changes requested and new comments
-    if (review.state !== 'CHANGES_REQUESTED' && review.state !== 'COMMENTED') {
+    // Webhooks send the state in lowercase; the REST API (and the poller) use uppercase
+    const state = String(review.state).toUpperCase();
+
+    // We care about changes requested, new comments and approvals
+    if (!['CHANGES_REQUESTED', 'COMMENTED', 'APPROVED'].includes(state)) {
       return;
     }
 
-    // Skip bot reviews
-    if (this.githubClient.isBotComment(review.user.login)) {
+    // Skip reviews by ignored users and bots
+    const repoConfig = this.githubClient.getRepoConfig(
+      repository.owner.login,
+      repository.name,
+      this.config.repos
+    );
+    if (this.identity.shouldIgnore(review.user, repoConfig)) {
       return;
     }
 
     logger.info(`PR review received`, {
       repo: repository.full_name,
       pr: pull_request.number,
-      state: review.state
+      state
     });
 
     await this.handlers.onPRReview(
@@ -306,7 +624,7 @@ export class WebhookServer {
       {
         id: review.id,
         user: { login: review.user.login },
-        state: review.state,
+        state,
         body: review.body || '',
         submittedAt: new Date(review.submitted_at)
       }
@@ -322,7 +640,11 @@ export class WebhookServer {
     return new Promise((resolve) => {
       this.app.listen(port, () => {
         logger.info(`Webhook server listening on port ${port}`);
-        logger.info(`Webhook URL: ${this.config.server.publicUrl}/webhook/github`);
+        if (this.options.webhooks) {
+          logger.info(`Webhook URL: ${this.config.server.publicUrl}/webhook/github`);
+        } else {
+          logger.info('GitHub webhooks disabled (polling mode); serving agent API only');
+        }
         resolve();
       });
     });
@@ -0,0 +1,218 @@
+/**
+ * Work Queue
+ * Holds triggered issues while agent slots are full. Higher priority goes first; within a
+ * priority, repos take turns (round-robin) so one busy repo can't starve the others, and
+ * each repo's issues run oldest first.
+ * Every change is written through to the StateStore so the queue survives restarts.
+ */
+
+import { GitHubIssue, QueuedIssue } from './types';
+import { MemoryStateStore, StateStore } from './state-store';
+import { logger } from './logger';
+
+export class WorkQueue {
+  private items: QueuedIssue[] = [];
+  private store: StateStore;
+  private lastRepo?: string;  // Repo most recently dispatched from, for round-robin
+
+  constructor(store: StateStore = new MemoryStateStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Load queued issues from the store (call once on boot)
+   */
+  async restore(): Promise<number> {
+    this.items = await this.store.loadQueue();
+    this.sort();
+    return this.items.length;
+  }
+
+  /**
+   * Add an issue to the queue. Returns its 1-based position.
+   */
+  enqueue(
+    issue: GitHubIssue,
+    triggerCommentId: number,
+    priority: number = 0,
+    promptTemplate?: string,
+    triggerAuthor?: string
+  ): number {
+    const existing = this.getPosition(issue.owner, issue.repo, issue.number);
+    if (existing > 0) {
+      return existing;
+    }
+
+    const item: QueuedIssue = {
+      issue,
+      triggerCommentId,
+      promptTemplate,
+      triggerAuthor,
+      priority,
+      enqueuedAt: new Date()
+    };
+
+    this.items.push(item);
+    this.sort();
+    this.persist(item);
+
+    return this.getPosition(issue.owner, issue.repo, issue.number);
+  }
+
+  /**
+   * Take the next issue off the queue. `canStart` rules out issues whose repo or owner
+   * is at its concurrency limit; their turn passes to the next repo.
+   */
+  dequeue(canStart: (item: QueuedIssue) => boolean = () => true): QueuedIssue | undefined {
+    const item = this.pickNext(this.items, this.lastRepo, canStart);
+    if (item) {
+      this.items.splice(this.items.indexOf(item), 1);
+      this.lastRepo = this.getRepoKey(item);
+      this.forget(item);
+    }
+    return item;
+  }
+
+  /**
+   * Remove a specific issue from the queue. Returns the removed entry, if any.
+   */
+  remove(owner: string, repo: string, issueNumber: number): QueuedIssue | undefined {
+    const index = this.indexOf(owner, repo, issueNumber);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const [item] = this.items.splice(index, 1);
+    this.forget(item);
+    return item;
+  }
+
+  /**
+   * The queue entry for an issue, if it is still queued
+   */
+  find(owner: string, repo: string, issueNumber: number): QueuedIssue | undefined {
+    const index = this.indexOf(owner, repo, issueNumber);
+    return index === -1 ? undefined : this.items[index];
+  }
+
+  /**
+   * Get the 1-based queue position of an issue in dispatch order (0 if not queued)
+   */
+  getPosition(owner: string, repo: string, issueNumber: number): number {
+    return this.getAll().findIndex(item => this.matches(item, owner, repo, issueNumber)) + 1;
+  }
+
+  /**
+   * Record the queue-position comment (and the position it shows) for an entry
+   */
+  updateStatusComment(item: QueuedIssue, commentId: number, position: number): void {
+    item.statusCommentId = commentId;
+    item.position = position;
+    this.persist(item);
+  }
+
+  /**
+   * All queued issues, in the order they would be dispatched if no limits were hit
+   */
+  getAll(): QueuedIssue[] {
+    const remaining = [...this.items];
+    const ordered: QueuedIssue[] = [];
+    let lastRepo = this.lastRepo;
+
+    while (remaining.length > 0) {
+      const item = this.pickNext(remaining, lastRepo, () => true)!;
+      remaining.splice(remaining.indexOf(item), 1);
+      ordered.push(item);
+      lastRepo = this.getRepoKey(item);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Number of queued issues per repo ("owner/repo")
+   */
+  countByRepo(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const item of this.items) {
+      const repo = `${item.issue.owner}/${item.issue.repo}`;
+      counts[repo] = (counts[repo] || 0) + 1;
+    }
+    return counts;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Pick the next issue from `items` (kept in priority then FIFO order): among the repos
+   * whose first startable issue has the highest priority, the one after `lastRepo`
+   */
+  private pickNext(
+    items: QueuedIssue[],
+    lastRepo: string | undefined,
+    canStart: (item: QueuedIssue) => boolean
+  ): QueuedIssue | undefined {
+    const heads = new Map<string, QueuedIssue>();
+    for (const item of items) {
+      const repo = this.getRepoKey(item);
+      if (!heads.has(repo) && canStart(item)) {
+        heads.set(repo, item);
+      }
+    }
+
+    if (heads.size === 0) {
+      return undefined;
+    }
+
+    const top = Math.max(...Array.from(heads.values(), item => item.priority));
+    const repos = Array.from(heads.keys())
+      .filter(repo => heads.get(repo)!.priority === top)
+      .sort();
+    const next = repos.find(repo => lastRepo === undefined || repo > lastRepo) || repos[0];
+
+    return heads.get(next);
+  }
+
+  /**
+   * Highest priority first, then oldest first
+   */
+  private sort(): void {
+    this.items.sort((a, b) =>
+      (b.priority - a.priority) || (a.enqueuedAt.getTime() - b.enqueuedAt.getTime())
+    );
+  }
+
+  private indexOf(owner: string, repo: string, issueNumber: number): number {
+    return this.items.findIndex(item => this.matches(item, owner, repo, issueNumber));
+  }
+
+  private matches(item: QueuedIssue, owner: string, repo: string, issueNumber: number): boolean {
+    return item.issue.owner.toLowerCase() === owner.toLowerCase() &&
+      item.issue.repo.toLowerCase() === repo.toLowerCase() &&
+      item.issue.number === issueNumber;
+  }
+
+  private getRepoKey(item: QueuedIssue): string {
+    return `${item.issue.owner}/${item.issue.repo}`.toLowerCase();
+  }
+
+  private persist(item: QueuedIssue): void {
+    const key = this.getKey(item);
+    this.store.saveQueueItem(key, item).catch(error => {
+      logger.error(`Failed to persist queue entry ${key}`, { error });
+    });
+  }
+
+  private forget(item: QueuedIssue): void {
+    const key = this.getKey(item);
+    this.store.deleteQueueItem(key).catch(error => {
+      logger.error(`Failed to delete queue entry ${key}`, { error });
+    });
+  }
+
+  private getKey(item: QueuedIssue): string {
+    return `${item.issue.owner}/${item.issue.repo}#${item.issue.number}`;
+  }
+}